@@ -1,11 +1,35 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { GameStatus, WikiPage, GameStep, SolverType } from './types';
+import { GameStatus, WikiPage, GameStep, SolverType, BacktrackRule, RunBudget, ModelLoadProgress, GameRules, MemoryStrategy, PromptTemplate, SolverConversation, TokenUsage } from './types';
 import * as wikiService from './services/wikiService';
-import * as geminiService from './services/geminiService';
-import * as openaiService from './services/openaiService';
-import * as claudeService from './services/claudeService';
-import * as vectorService from './services/vectorService';
+import { normalizeTitle } from './services/wikiService';
+import { findSolver, getSolver, listSolvers } from './services/solverRegistry';
+import { createRecording, findRecordedPage, pageAtPosition, parseRecording, recordingFileName, RunRecording } from './services/runRecording';
+import { fetchMoveDestination, navigationStack, resolveMove, runGame, scoreRun } from './services/gameRunner';
+import * as humanService from './services/humanService';
+import { DEFAULT_LOCAL_BASE_URL } from './services/localLlmService';
+import { cancelEmbedding, getEmbeddingStats } from './services/vectorService';
+import { addUnrecordedUsage, budgetExceeded, formatCost, formatTokens, runTotals, stepCost } from './services/costService';
+import { DEFAULT_LINK_RETRIES, getValidatedMove } from './services/linkValidation';
+import { measureProgress } from './services/progressService';
+import { checkMove, describeRules, remainingWaypoints, rulesForSolver } from './services/rulesService';
+import { CachedPageSource, createCachedPageSource, createIndexedDbStore, pickPrefetchCandidates } from './services/pageCache';
+import { LeaderboardPanel } from './components/LeaderboardPanel';
+import { StepCard } from './components/StepCard';
+import { PathGraph } from './components/PathGraph';
+import { ProgressChart } from './components/ProgressChart';
+import { OpponentPanel, OpponentRun } from './components/OpponentPanel';
+import { linkTitleFromAnchor } from './components/articleLinks';
+import { RaceView } from './components/RaceView';
+import { OptimalPath } from './components/OptimalPath';
+import { ReplayControls } from './components/ReplayControls';
+import { highlightLink } from './components/highlightLink';
+import { createLocalPageSource, loadSnapshotFile } from './services/localWikiSource';
+import { DifficultyEstimate, GeneratedPair, PairPool, dailyChallenge, estimateDifficulty, generatePair, localizePair, randomSeed } from './services/pairGenerator';
+import { DEFAULT_LANGUAGE, WIKI_LANGUAGES } from './services/languages';
+import { createConversation, MEMORY_STRATEGIES } from './services/conversationService';
+import { BenchmarkTier } from './services/benchmarkSuites';
+import { DEFAULT_PROMPT_TEMPLATE, PROMPT_PLACEHOLDERS, deleteTemplateVersion, loadTemplates, saveTemplateVersion, templateLabel, validateTemplate } from './services/promptTemplates';
 
 // --- Styles ---
 
@@ -21,6 +45,13 @@ const wikiStyles = `
     text-decoration: none;
     pointer-events: none; /* Prevent user from clicking links manually */
   }
+  .wiki-content.interactive a {
+    pointer-events: auto; /* Human mode: links are the controls */
+    cursor: pointer;
+  }
+  .wiki-content.interactive a:hover {
+    text-decoration: underline;
+  }
   .wiki-content h1, .wiki-content h2, .wiki-content h3 {
     font-family: 'Linux Libertine', 'Georgia', 'Times', serif;
     border-bottom: 1px solid #a2a9b1;
@@ -79,67 +110,104 @@ const wikiStyles = `
   .wiki-content .navbox { display: none; } /* Hide heavy footers */
 `;
 
-// --- Helpers ---
-
-const normalizeTitle = (title: string) => title.trim().replace(/ /g, '_').toLowerCase();
+// --- Page Cache ---
 
-const StepCard: React.FC<{ step: GameStep; index: number }> = ({ step, index }) => {
-  const isGemini = step.solver === 'GEMINI';
-  const isVectors = step.solver === 'VECTORS';
-  const isClaude = step.solver === 'CLAUDE';
-  const isOpenAI = step.solver === 'OPENAI';
-
-  let colorClass = 'blue';
-  if (isVectors) colorClass = 'purple';
-  if (isClaude) colorClass = 'amber';
-  if (isOpenAI) colorClass = 'emerald';
+// Live Wikipedia behind a persistent IndexedDB cache, one per edition so titles
+// never collide across languages; snapshots are local and skip it.
+const cachedLiveSources = new Map<string, CachedPageSource>();
+function cachedLiveSourceFor(language: string): CachedPageSource {
+  let source = cachedLiveSources.get(language);
+  if (!source) {
+    const dbName = language === DEFAULT_LANGUAGE ? 'wikirunner-cache' : `wikirunner-cache-${language}`;
+    source = createCachedPageSource(wikiService.createLivePageSource(language), createIndexedDbStore(dbName));
+    cachedLiveSources.set(language, source);
+  }
+  return source;
+}
+wikiService.setPageSource(cachedLiveSourceFor(DEFAULT_LANGUAGE));
 
-  const borderColor = `border-${colorClass}-500`;
-  const bgColor = `bg-${colorClass}-500`;
-  const textColor = `text-${colorClass}-500`;
-
-  return (
-    <div className={`border-l-2 ${borderColor} pl-4 py-3 mb-6 relative group transition-all`}>
-      <div className={`absolute -left-[9px] top-4 w-4 h-4 rounded-full ${bgColor} border-2 border-white shadow-sm group-hover:scale-125 transition-transform`}></div>
-      <div className="flex justify-between items-center mb-1">
-        <div className={`text-[10px] ${textColor} font-black uppercase tracking-widest`}>
-          Step {index + 1} • {step.solver}
-        </div>
-        <div className="text-[10px] text-slate-400 font-mono">
-          {step.duration.toFixed(0)}ms
-        </div>
-      </div>
-      <div className="font-bold text-slate-200 leading-tight mb-2">{step.pageTitle}</div>
-      <div className="bg-slate-800/50 border border-slate-700/50 rounded-lg p-2.5">
-         <p className="text-xs text-slate-400 italic leading-relaxed">
-          <i className="fa-solid fa-quote-left text-slate-600 mr-2"></i>
-          {step.thought}
-        </p>
-      </div>
-    </div>
-  );
-};
+const PREFETCH_COUNT = 3;
 
 // --- Main App ---
 
 export default function App() {
   const [startPage, setStartPage] = useState('Apollo 11');
   const [targetPage, setTargetPage] = useState('Cheese');
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGE);
+  const [targetLanguage, setTargetLanguage] = useState<string | null>(null); // Cross-language: edition the target is typed in
+  const [resolvedTarget, setResolvedTarget] = useState<string | null>(null); // The target's article on the played edition, when it differs from targetPage
+  const [pairSeed, setPairSeed] = useState<string | null>(null); // Seed the current pair came from, if any
+  const [seedInput, setSeedInput] = useState('');
+  const [pairPool, setPairPool] = useState<PairPool>('curated');
+  const [pairTier, setPairTier] = useState<BenchmarkTier | ''>('');
+  const [pairDifficulty, setPairDifficulty] = useState<DifficultyEstimate | 'estimating' | null>(null);
+  const [pairBusy, setPairBusy] = useState(false);
+  const [pairError, setPairError] = useState<string | null>(null);
   const [currentWikiPage, setCurrentWikiPage] = useState<WikiPage | null>(null);
   const [history, setHistory] = useState<GameStep[]>([]);
+  const [unrecordedUsage, setUnrecordedUsage] = useState<TokenUsage | undefined>(); // Spent on a move that failed validation
   const [status, setStatus] = useState<GameStatus>(GameStatus.IDLE);
   const [error, setError] = useState<string | null>(null);
   const [highlightedLink, setHighlightedLink] = useState<string | null>(null);
-  const [maxSteps] = useState(40);
+  const [pipelineView, setPipelineView] = useState<'steps' | 'graph'>('steps');
+  // A past step's page shown in the article pane instead of the live one
+  const [inspected, setInspected] = useState<{ position: number; page: WikiPage } | null>(null);
+  const [maxSteps, setMaxSteps] = useState(40);
+  const [backtrackRule, setBacktrackRule] = useState<BacktrackRule>('OFF');
+  const [budget, setBudget] = useState<RunBudget>({ maxWallTime: 5 * 60 * 1000 });
+  const [linkRetries, setLinkRetries] = useState(DEFAULT_LINK_RETRIES);
+  const [rules, setRules] = useState<GameRules>({});
+  const [memory, setMemory] = useState<MemoryStrategy>('OFF');
+  const conversationRef = useRef<SolverConversation | undefined>(undefined); // The current run's chat with the solver
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>(loadTemplates);
+  const [promptTemplate, setPromptTemplate] = useState<PromptTemplate>(DEFAULT_PROMPT_TEMPLATE); // Version new runs use
+  const [promptDraft, setPromptDraft] = useState({ name: '', body: DEFAULT_PROMPT_TEMPLATE.body });
+  const [promptError, setPromptError] = useState<string | null>(null);
+  const runPromptRef = useRef<PromptTemplate | undefined>(undefined); // Template of the current run, fixed at its start
+  const runStartRef = useRef(0);
+  const pausedAtRef = useRef<number | null>(null); // When the current pause began
   
   // Solver State
   const [solver, setSolver] = useState<SolverType>('GEMINI');
-  const [isModelLoading, setIsModelLoading] = useState(false);
-  const [isModelReady, setIsModelReady] = useState(false);
+  const [modelLoad, setModelLoad] = useState<{ solver: SolverType; progress: ModelLoadProgress } | null>(null);
+  const [readySolvers, setReadySolvers] = useState<SolverType[]>([]);
   const [isChatMinimized, setIsChatMinimized] = useState(false);
   const [userApiKey, setUserApiKey] = useState('');
+  const [localBaseUrl, setLocalBaseUrl] = useState('');
   const [selectedModel, setSelectedModel] = useState('gemini-2.0-flash-exp');
 
+  // Page Source State
+  const [pageSourceLabel, setPageSourceLabel] = useState(wikiService.getPageSource().label);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  const [prefetchEnabled, setPrefetchEnabled] = useState(true);
+  const [progressTelemetry, setProgressTelemetry] = useState(false); // Opt-in: measuring loads the vector model
+  const [isLeaderboardOpen, setIsLeaderboardOpen] = useState(false);
+  const [isRaceMode, setIsRaceMode] = useState(false);
+
+  // Recording & Replay State
+  const visitedPagesRef = useRef<Map<string, WikiPage>>(new Map());
+  const [includePageSnapshots, setIncludePageSnapshots] = useState(false);
+  const [replay, setReplay] = useState<RunRecording | null>(null);
+  const [replayPosition, setReplayPosition] = useState(0);
+  const [isReplayPlaying, setIsReplayPlaying] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  // Human-vs-AI challenge: an AI opponent runs headless alongside the human player
+  const opponentSolvers = listSolvers().filter(s => !s.capabilities.interactive);
+  const [challengeEnabled, setChallengeEnabled] = useState(false);
+  const [opponentSolver, setOpponentSolver] = useState<SolverType>(opponentSolvers[0].id);
+  const [opponentModel, setOpponentModel] = useState(opponentSolvers[0].defaultModel);
+  const [opponentApiKey, setOpponentApiKey] = useState('');
+  const [opponentRun, setOpponentRun] = useState<OpponentRun | null>(null);
+  const [challengeWinner, setChallengeWinner] = useState<'HUMAN' | 'AI' | null>(null);
+  const opponentAbortRef = useRef<AbortController | null>(null);
+
+  const activeSolver = getSolver(solver);
+  const isChallenge = challengeEnabled && activeSolver.capabilities.interactive;
+  const cachedLiveSource = cachedLiveSourceFor(language);
+  const isCrossLanguage = !!targetLanguage && targetLanguage !== language;
+  const playTarget = resolvedTarget ?? targetPage;
+
   const scrollRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const viewportRef = useRef<HTMLDivElement>(null);
@@ -150,34 +218,49 @@ export default function App() {
     statusRef.current = status;
   }, [status]);
 
-  // Pre-load model if user selects VECTORS
+  // Pre-load local models for solvers that need one (e.g. VECTORS), reporting download progress
+  const loadSolverModel = useCallback((id: SolverType) => {
+    const selected = getSolver(id);
+    if (!selected.loadModel) return;
+    selected.loadModel(progress => setModelLoad({ solver: id, progress })).then(() => {
+      setModelLoad(null);
+      setReadySolvers(prev => [...prev, id]);
+    }).catch(() => {}); // The error is shown from the last progress report
+  }, []);
+
   useEffect(() => {
-    if (solver === 'VECTORS' && !isModelReady) {
-      setIsModelLoading(true);
-      vectorService.loadModel().then(() => {
-        setIsModelLoading(false);
-        setIsModelReady(true);
-      });
-    }
+    if (getSolver(solver).loadModel && !readySolvers.includes(solver)) loadSolverModel(solver);
+  }, [solver, readySolvers, loadSolverModel]);
 
-    // Set default models when switching solvers
-    if (solver === 'GEMINI') setSelectedModel('gemini-2.0-flash-exp');
-    if (solver === 'OPENAI') setSelectedModel('gpt-4o-mini');
-    if (solver === 'CLAUDE') setSelectedModel('claude-haiku-4-5-20251001');
-    
-    // Clear API key on solver switch
+  // Set default model and clear API key when switching solvers
+  useEffect(() => {
+    const selected = getSolver(solver);
+    if (selected.defaultModel) setSelectedModel(selected.defaultModel);
     setUserApiKey('');
-    
-  }, [solver, isModelReady]);
+  }, [solver]);
+
+  // Time spent paused is not run time: on resume, the run's start moves forward by the pause.
+  // Declared before the budget guardrail so it sees the shifted start in the same render.
+  useEffect(() => {
+    if (status === GameStatus.PAUSED) {
+      pausedAtRef.current ??= Date.now();
+    } else if (pausedAtRef.current !== null) {
+      runStartRef.current += Date.now() - pausedAtRef.current;
+      pausedAtRef.current = null;
+    }
+  }, [status]);
 
-  // GUARDRAIL 1: Hard Refresh after 5 minutes to prevent infinite loops/cost
+  // GUARDRAIL 1: End the run once its wall-time budget runs out, even in the middle of a step
   useEffect(() => {
-    const FIVE_MINUTES = 5 * 60 * 1000;
+    const running = status === GameStatus.PLAYING || status === GameStatus.LOADING_STEP;
+    if (!running || budget.maxWallTime === undefined) return;
+    const remaining = runStartRef.current + budget.maxWallTime - Date.now();
     const timer = setTimeout(() => {
-      window.location.reload();
-    }, FIVE_MINUTES);
+      setError(budgetExceeded({ maxWallTime: budget.maxWallTime }, runTotals(history), Date.now() - runStartRef.current));
+      setStatus(GameStatus.FAILED);
+    }, Math.max(0, remaining));
     return () => clearTimeout(timer);
-  }, []);
+  }, [status, budget.maxWallTime, history]);
 
   // GUARDRAIL 2: Auto-pause when tab is hidden (user switches tabs)
   useEffect(() => {
@@ -202,32 +285,259 @@ export default function App() {
       setStatus(GameStatus.STARTING);
       setError(null);
       setHistory([]);
+      setUnrecordedUsage(undefined);
       setHighlightedLink(null);
-      
+      setInspected(null);
+      visitedPagesRef.current = new Map();
+      stopOpponent();
+      setOpponentRun(null);
+      setChallengeWinner(null);
+      setResolvedTarget(null);
+      conversationRef.current = activeSolver.capabilities.conversational ? createConversation(memory) : undefined;
+      runPromptRef.current = activeSolver.capabilities.promptTemplate ? promptTemplate : undefined;
+
+      // Redirect targets are resolved too, or reaching the article would never count
+      const target = isCrossLanguage ? await wikiService.resolveTargetTitle(targetPage, targetLanguage!) : targetPage;
+      const canonicalTarget = await wikiService.resolveRedirect(target);
+      if (canonicalTarget !== targetPage) setResolvedTarget(canonicalTarget);
       const page = await wikiService.fetchPageData(startPage);
       setCurrentWikiPage(page);
+      runStartRef.current = Date.now();
       setStatus(GameStatus.PLAYING);
+      if (isChallenge) startOpponent();
     } catch (err: any) {
       setError(`Failed to start: ${err.message}`);
       setStatus(GameStatus.IDLE);
     }
   };
 
+  const handleSnapshotFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const snapshot = await loadSnapshotFile(file);
+      const source = createLocalPageSource(snapshot, `Snapshot: ${file.name}`);
+      wikiService.setPageSource(source);
+      setPageSourceLabel(source.label);
+      setLanguage(wikiService.getLanguage()); // A snapshot is one edition; the selector is locked to it
+      setSnapshotError(null);
+      // Default the coordinates to pages that actually exist in the snapshot
+      setStartPage(await source.fetchRandomPageTitle());
+      setTargetPage(await source.fetchRandomPageTitle());
+      clearPairSeed();
+    } catch (err: any) {
+      setSnapshotError(`Failed to load snapshot: ${err.message}`);
+    }
+  };
+
+  const applyPair = (pair: GeneratedPair) => {
+    setStartPage(pair.start);
+    setTargetPage(pair.target);
+    setPairSeed(pair.seed);
+    setPairDifficulty(pair.difficulty || null);
+    setPairError(null);
+  };
+
+  // Hand-picked pages are no longer the seeded pair
+  const clearPairSeed = () => {
+    setPairSeed(null);
+    setPairDifficulty(null);
+  };
+
+  const handleGeneratePair = async () => {
+    const seed = seedInput.trim() || randomSeed();
+    setPairBusy(true);
+    setPairError(null);
+    try {
+      applyPair(await generatePair(seed, { pool: pairPool, tier: pairTier || undefined }));
+      setSeedInput(seed);
+    } catch (err: any) {
+      setPairError(`Failed to generate a pair: ${err.message}`);
+    } finally {
+      setPairBusy(false);
+    }
+  };
+
+  const handleEstimateDifficulty = async () => {
+    const pair = { start: startPage, target: targetPage };
+    setPairDifficulty('estimating');
+    const estimate = await estimateDifficulty(pair.start, pair.target);
+    // Ignore the estimate if the pair changed while it ran
+    setPairDifficulty(prev => (prev === 'estimating' ? estimate : prev));
+  };
+
+  const switchToLivePageSource = () => {
+    wikiService.setPageSource(cachedLiveSource);
+    setPageSourceLabel(cachedLiveSource.label);
+    setSnapshotError(null);
+  };
+
+  // Switching editions carries the start and target over through interlanguage links
+  // where the articles exist; a cross-language target stays in its own language.
+  // Only offered on live sources: a snapshot cannot change edition.
+  const selectLanguage = async (code: string) => {
+    const from = language;
+    setLanguage(code);
+    const live = cachedLiveSourceFor(code);
+    wikiService.setPageSource(live);
+    setPageSourceLabel(live.label);
+    const carry = (title: string) => wikiService.fetchInterlanguageTitle(title, from, code).catch(() => null);
+    const [start, target] = await Promise.all([carry(startPage), targetLanguage ? null : carry(targetPage)]);
+    if (start) setStartPage(start);
+    if (target) setTargetPage(target);
+  };
+
+  const startOpponent = () => {
+    const controller = new AbortController();
+    opponentAbortRef.current = controller;
+    const opponent = getSolver(opponentSolver);
+    const model = opponent.defaultModel ? opponentModel : undefined;
+    setOpponentRun({ solver: opponentSolver, model, history: [], pageTitle: null, status: GameStatus.PLAYING });
+
+    Promise.resolve(opponent.loadModel?.()).then(() => runGame(
+      { startPage, targetPage, solver: opponentSolver, model, apiKey: opponentApiKey, maxSteps, backtrackRule, budget, linkRetries, rules, targetLanguage: targetLanguage || undefined },
+      {
+        signal: controller.signal,
+        onPage: page => setOpponentRun(prev => prev && { ...prev, pageTitle: page.title }),
+        onStep: async step => setOpponentRun(prev => prev && { ...prev, history: [...prev.history, step] })
+      }
+    )).then(result => {
+      if (controller.signal.aborted) return;
+      setOpponentRun(prev => prev && { ...prev, status: result.outcome, failureReason: result.failureReason });
+      if (result.outcome === GameStatus.SUCCESS) setChallengeWinner(prev => prev ?? 'AI');
+    }).catch(err => {
+      if (!controller.signal.aborted) setOpponentRun(prev => prev && { ...prev, status: GameStatus.FAILED, failureReason: err.message });
+    });
+  };
+
+  const stopOpponent = () => {
+    opponentAbortRef.current?.abort();
+    opponentAbortRef.current = null;
+  };
+
   const resetGame = () => {
+    stopOpponent();
+    humanService.cancelPendingMove();
+    cancelEmbedding();
+    setOpponentRun(null);
+    setChallengeWinner(null);
     setStatus(GameStatus.IDLE);
     setHistory([]);
+    setUnrecordedUsage(undefined);
     setCurrentWikiPage(null);
     setError(null);
     setHighlightedLink(null);
+    setReplay(null);
+    setIsReplayPlaying(false);
+    setInspected(null);
+    setResolvedTarget(null);
+  };
+
+  // --- Prompt templates ---
+
+  const selectPromptTemplate = (template: PromptTemplate) => {
+    setPromptTemplate(template);
+    setPromptDraft({ name: template === DEFAULT_PROMPT_TEMPLATE ? '' : template.name, body: template.body });
+    setPromptError(null);
+  };
+
+  const savePromptDraft = () => {
+    try {
+      const { templates, saved } = saveTemplateVersion(promptDraft.name, promptDraft.body);
+      setPromptTemplates(templates);
+      selectPromptTemplate(saved);
+    } catch (err: any) {
+      setPromptError(err.message);
+    }
+  };
+
+  const deletePromptTemplate = () => {
+    setPromptTemplates(deleteTemplateVersion(promptTemplate));
+    selectPromptTemplate(DEFAULT_PROMPT_TEMPLATE);
+  };
+
+  // JSON the CLI accepts with --prompt
+  const exportPromptTemplate = () => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(promptTemplate, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `prompt_${promptTemplate.name}_v${promptTemplate.version}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const exportRun = () => {
+    const recording = createRecording(
+      {
+        startPage,
+        targetPage: playTarget,
+        solver,
+        model: activeSolver.defaultModel ? selectedModel : undefined,
+        maxSteps,
+        backtrackRule,
+        rules,
+        memory: conversationRef.current?.strategy,
+        promptTemplate: runPromptRef.current,
+        seed: pairSeed || undefined,
+        language: language !== DEFAULT_LANGUAGE ? language : undefined,
+        requestedTarget: resolvedTarget ? targetPage : undefined,
+        targetLanguage: isCrossLanguage ? targetLanguage! : undefined,
+        pageSource: wikiService.getPageSource().id
+      },
+      status,
+      history,
+      currentWikiPage?.title || startPage,
+      {
+        error: error || undefined,
+        pages: includePageSnapshots ? Array.from(visitedPagesRef.current.values()) : undefined
+      }
+    );
+    const url = URL.createObjectURL(new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = recordingFileName(recording);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleReplayFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const recording = parseRecording(await file.text());
+      setStartPage(recording.config.startPage);
+      setTargetPage(recording.config.targetPage);
+      setPairSeed(recording.config.seed || null);
+      setResolvedTarget(null);
+      setTargetLanguage(null);
+      if (wikiService.getPageSource().id !== 'local') {
+        const live = cachedLiveSourceFor(recording.config.language || DEFAULT_LANGUAGE);
+        setLanguage(recording.config.language || DEFAULT_LANGUAGE);
+        wikiService.setPageSource(live);
+        setPageSourceLabel(live.label);
+      }
+      setPairDifficulty(null);
+      if (findSolver(recording.config.solver)) setSolver(recording.config.solver);
+      setError(recording.error || null);
+      setUnrecordedUsage(undefined);
+      setReplayError(null);
+      setInspected(null);
+      setReplay(recording);
+      setReplayPosition(0);
+      setIsReplayPlaying(false);
+      setStatus(GameStatus.REPLAY);
+    } catch (err: any) {
+      setReplayError(`Failed to load run: ${err.message}`);
+    }
   };
 
   const executeMove = useCallback(async () => {
     if (!currentWikiPage || status !== GameStatus.PLAYING) return;
 
     const currentNorm = normalizeTitle(currentWikiPage.title);
-    const targetNorm = normalizeTitle(targetPage);
+    const targetNorm = normalizeTitle(playTarget);
+    const visited = [...history.map(h => h.pageTitle), currentWikiPage.title];
 
-    if (currentNorm === targetNorm) {
+    // With waypoints, the target only counts once they have all been visited
+    if (currentNorm === targetNorm && !remainingWaypoints(rules, visited).length) {
       setStatus(GameStatus.SUCCESS);
       return;
     }
@@ -238,92 +548,117 @@ export default function App() {
       return;
     }
 
+    const overBudget = budgetExceeded(budget, runTotals(history), Date.now() - runStartRef.current);
+    if (overBudget) {
+      setStatus(GameStatus.FAILED);
+      setError(overBudget);
+      return;
+    }
+
     try {
       setStatus(GameStatus.LOADING_STEP);
       
       const startTime = performance.now();
       
-      // Select Service
-      let move;
-      if (solver === 'VECTORS') {
-         move = await vectorService.getNextMove(
-           currentWikiPage, 
-           targetPage, 
-           history.map(h => h.pageTitle)
-         );
-      } else if (solver === 'OPENAI') {
-        move = await openaiService.getNextMove(
-          currentWikiPage,
-          targetPage,
-          history.map(h => h.pageTitle),
-          userApiKey,
-          selectedModel
-        );
-      } else if (solver === 'CLAUDE') {
-        move = await claudeService.getNextMove(
-          currentWikiPage,
-          targetPage,
-          history.map(h => h.pageTitle),
-          userApiKey,
-          selectedModel
-        );
-      } else {
-         move = await geminiService.getNextMove(
-          currentWikiPage,
-          targetPage,
-          history.map(h => h.pageTitle),
-          userApiKey,
-          selectedModel
-        );
+      // Warm the cache with likely picks while the solver is thinking
+      if (prefetchEnabled) {
+        wikiService.prefetchPages(pickPrefetchCandidates(currentWikiPage, playTarget, PREFETCH_COUNT));
       }
+
+      // Distance-to-target telemetry, measured alongside the solver call
+      const progress = progressTelemetry ? measureProgress(currentWikiPage, playTarget) : undefined;
+
+      const stack = navigationStack(history);
+      const { move, invalidChoices, correctedFrom } = await getValidatedMove(getSolver(solver), {
+        currentPage: currentWikiPage,
+        targetPage: playTarget,
+        history: history.map(h => h.pageTitle),
+        apiKey: userApiKey,
+        model: selectedModel,
+        baseUrl: localBaseUrl || undefined,
+        backStack: backtrackRule !== 'OFF' ? stack : undefined,
+        rules: rulesForSolver(rules, visited),
+        language,
+        conversation: conversationRef.current,
+        promptTemplate: runPromptRef.current?.body
+      }, linkRetries);
       
       const endTime = performance.now();
       const duration = endTime - startTime;
 
-      // Visual Highlight
-      setHighlightedLink(move.selectedLink);
+      // The wall-time budget may have ended the run while the solver was thinking
+      if (statusRef.current === GameStatus.FAILED) return;
+
+      const { action, destination } = resolveMove(move, stack, backtrackRule);
+      // Load before showing the move so a link that fails to load can fall back to a runner-up
+      const { page: nextPage, link } = await fetchMoveDestination(
+        destination,
+        currentWikiPage,
+        action === 'LINK' ? move.candidates : undefined
+      );
+
+      // Visual Highlight (back moves have no link on the page to point at)
+      setHighlightedLink(action === 'LINK' ? link : null);
       
       const newStep: GameStep = {
         pageTitle: currentWikiPage.title,
         thought: move.reasoning,
         timestamp: Date.now(),
         duration: duration,
-        solver: solver
+        solver: solver,
+        action,
+        selectedLink: action === 'LINK' ? link : undefined,
+        backTo: action === 'BACK' ? destination : undefined,
+        usage: move.usage,
+        cost: stepCost(selectedModel, move.usage),
+        invalidChoices: invalidChoices.length ? invalidChoices : undefined,
+        correctedFrom,
+        candidates: move.candidates,
+        prefilter: move.prefilter,
+        fallbackFrom: link !== destination ? destination : undefined
       };
+      const violations = checkMove(rules, currentWikiPage, action === 'LINK' ? link : null, nextPage);
+      if (violations.length) newStep.violations = violations;
+      conversationRef.current?.record(newStep);
       
       setHistory(prev => [...prev, newStep]);
+      // Filled in when ready rather than holding the step (the first measurement may load the vector model)
+      progress?.then(measured => setHistory(prev => prev.map(s => (s === newStep ? { ...s, progress: measured } : s))));
 
-      // Delay for visual feedback
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      // Delay for visual feedback (the human already knows which link they clicked; a time trial is on the clock)
+      if (!getSolver(solver).capabilities.interactive && !rules.timeTrial) {
+        await new Promise(resolve => setTimeout(resolve, 1500));
+      }
+
+      setCurrentWikiPage(nextPage);
+      setHighlightedLink(null);
 
-      if (normalizeTitle(move.selectedLink) === targetNorm) {
-          const finalPage = await wikiService.fetchPageData(move.selectedLink);
-          setCurrentWikiPage(finalPage);
-          setHighlightedLink(null);
+      if (violations.length) {
+        setError(`Rule broken at step ${history.length + 1}: ${violations[0].message}`);
+        setStatus(GameStatus.FAILED);
+        return;
+      }
+      // The loaded page, not the link: a link through a redirect lands on the target article
+      if (normalizeTitle(nextPage.title) === targetNorm && !remainingWaypoints(rules, [...visited, nextPage.title]).length) {
           setStatus(GameStatus.SUCCESS);
           return;
       }
 
-      // Check if user stopped/paused while we were waiting
+      // Check if user stopped/paused while we were waiting: apply the move result but stay paused
       if (statusRef.current === GameStatus.PAUSED) {
-        // Apply the move result but stay paused
-        const nextPage = await wikiService.fetchPageData(move.selectedLink);
-        setCurrentWikiPage(nextPage);
-        setHighlightedLink(null);
         return;
       }
 
-      const nextPage = await wikiService.fetchPageData(move.selectedLink);
-      setCurrentWikiPage(nextPage);
-      setHighlightedLink(null);
-      
       setStatus(GameStatus.PLAYING);
     } catch (err: any) {
+      // Reset while the solver was thinking (e.g. a cancelled embedding)
+      if (statusRef.current === GameStatus.IDLE) return;
       console.error(err);
+      setUnrecordedUsage(err.usage);
       setError(`Solver Error: ${err.message}`);
       setStatus(GameStatus.FAILED);
     }
-  }, [currentWikiPage, targetPage, history, maxSteps, status, solver]);
+  }, [currentWikiPage, playTarget, language, history, maxSteps, status, solver, userApiKey, selectedModel, localBaseUrl, backtrackRule, prefetchEnabled, progressTelemetry, budget, linkRetries, rules]);
 
   useEffect(() => {
     if (status === GameStatus.PLAYING) {
@@ -332,34 +667,94 @@ export default function App() {
     }
   }, [status, executeMove]);
 
-  // Handle link highlighting in the DOM
+  // Challenge: the first to reach the target wins; the opponent stops once the human finishes
   useEffect(() => {
-    if (highlightedLink && contentRef.current) {
-      const links = contentRef.current.querySelectorAll('a');
-      let found = false;
-      links.forEach(a => {
-        const titleAttr = a.getAttribute('title');
-        const textContent = a.textContent?.trim();
-        const isMatch = (titleAttr && normalizeTitle(titleAttr) === normalizeTitle(highlightedLink)) ||
-                        (textContent && normalizeTitle(textContent) === normalizeTitle(highlightedLink));
-
-        if (isMatch && !found) {
-          a.classList.add('highlight-link');
-          a.scrollIntoView({ behavior: 'smooth', block: 'center' });
-          found = true;
-        } else {
-          a.classList.remove('highlight-link');
-        }
+    if (!opponentRun) return;
+    if (status === GameStatus.SUCCESS) {
+      setChallengeWinner(prev => prev ?? 'HUMAN');
+      stopOpponent();
+    }
+  }, [status]);
+
+  // Handle link highlighting in the DOM; an inspected page shows the link taken from it
+  useEffect(() => {
+    const link = inspected ? history[inspected.position]?.selectedLink : highlightedLink;
+    if (link && contentRef.current) {
+      highlightLink(contentRef.current, link);
+    }
+  }, [highlightedLink, currentWikiPage, inspected]);
+
+  // Keep every page of the current run for export
+  useEffect(() => {
+    if (currentWikiPage && status !== GameStatus.REPLAY) {
+      visitedPagesRef.current.set(currentWikiPage.title, currentWikiPage);
+    }
+  }, [currentWikiPage, status]);
+
+  // Replay: restore the log, article pane and highlighted link for the scrubbed position
+  useEffect(() => {
+    if (!replay) return;
+    let cancelled = false;
+    const title = pageAtPosition(replay, replayPosition);
+    setHistory(replay.steps.slice(0, replayPosition + 1));
+    setHighlightedLink(null);
+
+    const recorded = findRecordedPage(replay, title);
+    (recorded ? Promise.resolve(recorded) : wikiService.fetchPageData(title))
+      .then(page => {
+        if (cancelled) return;
+        setCurrentWikiPage(page);
+        setHighlightedLink(replay.steps[replayPosition]?.selectedLink ?? null);
+        setReplayError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setReplayError(`Failed to load "${title}": ${err.message}`);
       });
+    return () => { cancelled = true; };
+  }, [replay, replayPosition]);
+
+  // Replay autoplay
+  useEffect(() => {
+    if (!replay || !isReplayPlaying) return;
+    if (replayPosition >= replay.steps.length) {
+      setIsReplayPlaying(false);
+      return;
     }
-  }, [highlightedLink, currentWikiPage]);
+    const timer = setTimeout(() => setReplayPosition(p => p + 1), 1500);
+    return () => clearTimeout(timer);
+  }, [replay, isReplayPlaying, replayPosition]);
 
   // Reset scroll on page change
   useEffect(() => {
     if (viewportRef.current) {
       viewportRef.current.scrollTop = 0;
     }
-  }, [currentWikiPage?.title]);
+  }, [currentWikiPage?.title, inspected?.page.title]);
+
+  // Graph node clicks: replays scrub to the position, live runs show the page beside the live one
+  const viewPosition = async (position: number) => {
+    if (replay) {
+      setIsReplayPlaying(false);
+      setReplayPosition(position);
+      return;
+    }
+    if (position >= history.length) {
+      setInspected(null);
+      return;
+    }
+    const title = history[position].pageTitle;
+    try {
+      const page = visitedPagesRef.current.get(title) || await wikiService.fetchPageData(title);
+      setInspected({ position, page });
+    } catch (err) {
+      console.error(`Failed to load "${title}"`, err); // Pages of the current run are normally kept in memory
+    }
+  };
+
+  const displayedPage = inspected?.page ?? currentWikiPage;
+
+  const totals = addUnrecordedUsage(runTotals(history), unrecordedUsage, selectedModel);
+  const ruleLabels = describeRules(rules, [...history.map(h => h.pageTitle), ...(currentWikiPage ? [currentWikiPage.title] : [])]);
 
   const getAvgTime = () => {
     if (history.length === 0) return 0;
@@ -367,6 +762,44 @@ export default function App() {
     return Math.round(total / history.length);
   };
 
+  // Links are inert unless a human is playing; then a click on an article link is the move
+  const handleContentClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const anchor = (e.target as HTMLElement).closest('a');
+    if (!anchor) return;
+    e.preventDefault();
+    if (!activeSolver.capabilities.interactive || !humanService.isAwaitingMove()) return;
+    const title = linkTitleFromAnchor(anchor);
+    if (title) humanService.submitMove(title);
+  };
+
+  const challengeResult = opponentRun && (
+    <div className="mb-6">
+      <div className="text-2xl font-black uppercase tracking-tight">
+        {challengeWinner === 'HUMAN' && <span className="text-emerald-300"><i className="fa-solid fa-trophy mr-2"></i>You beat {getSolver(opponentRun.solver).label}</span>}
+        {challengeWinner === 'AI' && <span className="text-amber-300"><i className="fa-solid fa-robot mr-2"></i>{getSolver(opponentRun.solver).label} got there first</span>}
+        {!challengeWinner && <span className="text-slate-300">No winner yet</span>}
+      </div>
+      <div className="text-xs text-slate-400 mt-1">
+        Opponent: {opponentRun.history.length} steps · {opponentRun.status === GameStatus.PLAYING ? 'still running' : opponentRun.status.toLowerCase()}
+      </div>
+    </div>
+  );
+
+  const exportControls = (
+    <div className="flex flex-col items-center gap-2 mb-6">
+      <button
+        onClick={exportRun}
+        className="bg-white/10 hover:bg-white/20 text-white px-6 py-2 rounded-full text-[10px] font-black uppercase tracking-widest transition-all"
+      >
+        <i className="fa-solid fa-download mr-2"></i> Export Run
+      </button>
+      <label className="flex items-center gap-2 text-[10px] text-slate-400 cursor-pointer">
+        <input type="checkbox" checked={includePageSnapshots} onChange={(e) => setIncludePageSnapshots(e.target.checked)} />
+        Include page snapshots
+      </label>
+    </div>
+  );
+
   return (
     <div className="h-screen w-full overflow-hidden flex flex-col bg-slate-100 text-slate-900">
       <style>{wikiStyles}</style>
@@ -391,11 +824,43 @@ export default function App() {
           <i className="fa-solid fa-chevron-right text-slate-300 text-xs"></i>
           <div className="flex items-center gap-2">
              <span className="text-[10px] font-black text-slate-400 uppercase tracking-tighter">Goal</span>
-            <span className="text-sm font-bold text-blue-600 max-w-[120px] truncate">{targetPage}</span>
+            <span className="text-sm font-bold text-blue-600 max-w-[120px] truncate" title={resolvedTarget ? (isCrossLanguage ? `${targetPage} (${targetLanguage})` : targetPage) : undefined}>{playTarget}</span>
+            {language !== DEFAULT_LANGUAGE && <span className="text-[10px] font-mono font-bold text-slate-400 uppercase">{language}</span>}
           </div>
+          {ruleLabels.length > 0 && (
+            <div className="flex items-center gap-1.5 border-l border-slate-200 pl-8">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-tighter">Rules</span>
+              {ruleLabels.map(label => (
+                <span key={label} className="text-[10px] font-bold text-purple-700 bg-purple-50 border border-purple-100 rounded-full px-2 py-0.5 max-w-[160px] truncate" title={label}>{label}</span>
+              ))}
+            </div>
+          )}
+          {totals.inputTokens + totals.outputTokens > 0 && (
+            <div className="flex items-center gap-2 border-l border-slate-200 pl-8">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-tighter">Cost</span>
+              <span className="text-sm font-mono font-bold text-slate-700">{formatCost(totals.cost)}</span>
+              <span className="text-[10px] font-mono text-slate-400">{formatTokens(totals.inputTokens + totals.outputTokens)} tok</span>
+            </div>
+          )}
         </div>
 
         <div className="flex items-center gap-4">
+          <button
+            onClick={() => setIsRaceMode(prev => !prev)}
+            disabled={status !== GameStatus.IDLE}
+            className={`w-10 h-10 rounded-full flex items-center justify-center transition-all border shadow-sm active:scale-90 disabled:opacity-40
+              ${isRaceMode ? 'bg-blue-600 text-white border-blue-600' : 'bg-blue-50 hover:bg-blue-100 text-blue-600 border-blue-100'}`}
+            title={isRaceMode ? "Back to Solo Mode" : "Race Mode"}
+          >
+            <i className="fa-solid fa-flag-checkered"></i>
+          </button>
+          <button
+            onClick={() => setIsLeaderboardOpen(true)}
+            className="w-10 h-10 rounded-full flex items-center justify-center transition-all border border-amber-100 bg-amber-50 hover:bg-amber-100 text-amber-600 shadow-sm active:scale-90"
+            title="Solver Leaderboard"
+          >
+            <i className="fa-solid fa-trophy"></i>
+          </button>
           <div className="text-right">
             <div className="text-[10px] font-black text-slate-400 uppercase leading-none">Path</div>
             <div className="text-xl font-mono font-bold text-slate-900">
@@ -403,19 +868,22 @@ export default function App() {
               <span className="text-slate-300 mx-1">/</span>
               <span className="text-slate-400 text-sm">{maxSteps}</span>
             </div>
+            <ProgressChart history={history} />
           </div>
           {status !== GameStatus.IDLE && (
             <div className="flex items-center gap-2">
-              <button 
-                onClick={() => setStatus(prev => prev === GameStatus.PAUSED ? GameStatus.PLAYING : GameStatus.PAUSED)}
-                className={`w-10 h-10 rounded-full flex items-center justify-center transition-all border shadow-sm active:scale-90
-                  ${status === GameStatus.PAUSED 
-                    ? 'bg-emerald-50 hover:bg-emerald-100 text-emerald-600 border-emerald-100' 
-                    : 'bg-red-50 hover:bg-red-100 text-red-600 border-red-100'}`}
-                title={status === GameStatus.PAUSED ? "Resume Mission" : "Stop Mission"}
-              >
-                <i className={`fa-solid ${status === GameStatus.PAUSED ? 'fa-play' : 'fa-stop'}`}></i>
-              </button>
+              {status !== GameStatus.REPLAY && (
+                <button 
+                  onClick={() => setStatus(prev => prev === GameStatus.PAUSED ? GameStatus.PLAYING : GameStatus.PAUSED)}
+                  className={`w-10 h-10 rounded-full flex items-center justify-center transition-all border shadow-sm active:scale-90
+                    ${status === GameStatus.PAUSED 
+                      ? 'bg-emerald-50 hover:bg-emerald-100 text-emerald-600 border-emerald-100' 
+                      : 'bg-red-50 hover:bg-red-100 text-red-600 border-red-100'}`}
+                  title={status === GameStatus.PAUSED ? "Resume Mission" : "Stop Mission"}
+                >
+                  <i className={`fa-solid ${status === GameStatus.PAUSED ? 'fa-play' : 'fa-stop'}`}></i>
+                </button>
+              )}
 
               <button 
                 onClick={resetGame}
@@ -431,6 +899,30 @@ export default function App() {
 
       {/* Main Content Area - Split View */}
       <main className="relative flex-1 flex flex-col md:flex-row min-h-0 overflow-hidden">
+
+        {isRaceMode && (
+          <div className="absolute inset-0 z-[55] flex flex-col">
+            <RaceView
+              startPage={startPage}
+              targetPage={targetPage}
+              maxSteps={maxSteps}
+              rules={rules}
+              targetLanguage={targetLanguage || undefined}
+              promptTemplates={[DEFAULT_PROMPT_TEMPLATE, ...promptTemplates]}
+              onStartPageChange={setStartPage}
+              onTargetPageChange={setTargetPage}
+            />
+          </div>
+        )}
+
+        {isLeaderboardOpen && (
+          <LeaderboardPanel
+            config={{ solver, model: activeSolver.defaultModel ? selectedModel : undefined, apiKey: userApiKey, baseUrl: localBaseUrl || undefined, memory: activeSolver.capabilities.conversational ? memory : undefined, promptTemplate: activeSolver.capabilities.promptTemplate ? promptTemplate : undefined }}
+            promptTemplates={[DEFAULT_PROMPT_TEMPLATE, ...promptTemplates]}
+            maxSteps={maxSteps}
+            onClose={() => setIsLeaderboardOpen(false)}
+          />
+        )}
         
         {/* Left Sidebar: Log & Config */}
         <section className={`
@@ -451,48 +943,53 @@ export default function App() {
 
               {/* Solver Selection */}
               <div className="grid grid-cols-2 gap-2 bg-slate-800 rounded-xl p-2">
-                <button 
-                  onClick={() => setSolver('GEMINI')}
-                  className={`py-3 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all flex flex-col items-center justify-center gap-1
-                    ${solver === 'GEMINI' ? 'bg-blue-600 text-white shadow-lg' : 'bg-slate-700/50 text-slate-500 hover:bg-slate-700 hover:text-slate-300'}`}
-                >
-                  <i className="fa-solid fa-brain text-sm"></i>
-                  Gemini
-                </button>
-                <button 
-                  onClick={() => setSolver('OPENAI')}
-                  className={`py-3 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all flex flex-col items-center justify-center gap-1
-                    ${solver === 'OPENAI' ? 'bg-emerald-600 text-white shadow-lg' : 'bg-slate-700/50 text-slate-500 hover:bg-slate-700 hover:text-slate-300'}`}
-                >
-                  <i className="fa-solid fa-bolt text-sm"></i>
-                  OpenAI
-                </button>
-                <button 
-                  onClick={() => setSolver('CLAUDE')}
-                  className={`py-3 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all flex flex-col items-center justify-center gap-1
-                    ${solver === 'CLAUDE' ? 'bg-amber-600 text-white shadow-lg' : 'bg-slate-700/50 text-slate-500 hover:bg-slate-700 hover:text-slate-300'}`}
-                >
-                  <i className="fa-solid fa-robot text-sm"></i>
-                  Claude
-                </button>
-                <button 
-                  onClick={() => setSolver('VECTORS')}
-                  disabled={isModelLoading}
-                  className={`py-3 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all flex flex-col items-center justify-center gap-1
-                    ${solver === 'VECTORS' ? 'bg-purple-600 text-white shadow-lg' : 'bg-slate-700/50 text-slate-500 hover:bg-slate-700 hover:text-slate-300'}
-                    ${isModelLoading ? 'opacity-50 cursor-wait' : ''}
-                  `}
-                >
-                  {isModelLoading ? (
-                    <i className="fa-solid fa-circle-notch fa-spin text-sm"></i>
+                {listSolvers().map(option => {
+                  const isLoading = modelLoad?.solver === option.id && modelLoad.progress.status === 'loading';
+                  return (
+                    <button 
+                      key={option.id}
+                      onClick={() => setSolver(option.id)}
+                      disabled={isLoading}
+                      className={`py-3 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all flex flex-col items-center justify-center gap-1
+                        ${solver === option.id ? `bg-${option.color}-600 text-white shadow-lg` : 'bg-slate-700/50 text-slate-500 hover:bg-slate-700 hover:text-slate-300'}
+                        ${isLoading ? 'opacity-50 cursor-wait' : ''}
+                      `}
+                    >
+                      {isLoading ? (
+                        <i className="fa-solid fa-circle-notch fa-spin text-sm"></i>
+                      ) : (
+                        <i className={`fa-solid ${option.icon} text-sm`}></i>
+                      )}
+                      {option.label}
+                    </button>
+                  );
+                })}
+              </div>
+
+              {modelLoad?.solver === solver && (
+                <div className="space-y-2 bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                  {modelLoad.progress.status === 'error' ? (
+                    <div className="flex items-center justify-between gap-2 text-[10px]">
+                      <span className="text-red-400 truncate" title={modelLoad.progress.error}>Model failed to load: {modelLoad.progress.error}</span>
+                      <button onClick={() => loadSolverModel(solver)} className="text-slate-400 hover:text-white transition-colors shrink-0">
+                        <i className="fa-solid fa-rotate-right mr-1"></i> Retry
+                      </button>
+                    </div>
                   ) : (
-                    <i className="fa-solid fa-bezier-curve text-sm"></i>
+                    <>
+                      <div className="flex justify-between text-[10px] font-mono text-slate-400">
+                        <span className="truncate">Loading model{modelLoad.progress.file ? `: ${modelLoad.progress.file}` : '…'}</span>
+                        <span>{modelLoad.progress.progress}%</span>
+                      </div>
+                      <div className="h-1 bg-slate-900 rounded-full overflow-hidden">
+                        <div className={`h-full bg-${activeSolver.color}-500 transition-all`} style={{ width: `${modelLoad.progress.progress}%` }}></div>
+                      </div>
+                    </>
                   )}
-                  Vectors
-                </button>
-              </div>
+                </div>
+              )}
 
-              {solver !== 'VECTORS' && (
+              {activeSolver.capabilities.needsApiKey && (
                 <div className="space-y-4 bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
                   <div className="group">
                     <label className="block text-[10px] font-black text-slate-500 mb-2 uppercase tracking-[0.2em]">{solver} API Key <span className="text-slate-600 font-normal normal-case tracking-normal">(Optional)</span></label>
@@ -512,29 +1009,9 @@ export default function App() {
                         onChange={(e) => setSelectedModel(e.target.value)}
                         className="w-full appearance-none bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
                       >
-                        {solver === 'GEMINI' && (
-                          <>
-                            <option value="gemini-2.0-flash-exp">Gemini 2.0 Flash (Preview)</option>
-                            <option value="gemini-1.5-flash">Gemini 1.5 Flash (Fast)</option>
-                            <option value="gemini-1.5-pro">Gemini 1.5 Pro (Reasoning)</option>
-                            <option value="gemini-1.5-flash-8b">Gemini 1.5 Flash-8B (Light)</option>
-                          </>
-                        )}
-                        {solver === 'OPENAI' && (
-                          <>
-                            <option value="gpt-4o-mini">GPT-4o Mini (Fast)</option>
-                            <option value="gpt-4o">GPT-4o (Smart)</option>
-                            <option value="gpt-5-mini">GPT-5 Mini (Preview)</option>
-                           
-                          </>
-                        )}
-                        {solver === 'CLAUDE' && (
-                          <>
-                            <option value="claude-sonnet-4-5-20250929">Claude 4.5 Sonnet (Latest and smartest)</option>
-                            <option value="claude-sonnet-4-20250514">Claude 4 Sonnet (Smart)</option>
-                            <option value="claude-haiku-4-5-20251001">Claude 4.5 Haiku (Fast)</option>
-                          </>
-                        )}
+                        {activeSolver.models.map(m => (
+                          <option key={m.value} value={m.value}>{m.label}</option>
+                        ))}
                       </select>
                       <div className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none">
                         <i className="fa-solid fa-chevron-down text-xs"></i>
@@ -543,7 +1020,427 @@ export default function App() {
                   </div>
                 </div>
               )}
+
+              {activeSolver.capabilities.interactive && (
+                <div className="space-y-3 bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                  <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] cursor-pointer">
+                    <input type="checkbox" checked={challengeEnabled} onChange={(e) => setChallengeEnabled(e.target.checked)} />
+                    Challenge an AI
+                  </label>
+                  {challengeEnabled && (() => {
+                    const opponent = getSolver(opponentSolver);
+                    return (
+                      <>
+                        <select
+                          value={opponentSolver}
+                          onChange={(e) => {
+                            const id = e.target.value as SolverType;
+                            setOpponentSolver(id);
+                            setOpponentModel(getSolver(id).defaultModel);
+                          }}
+                          className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        >
+                          {opponentSolvers.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                        </select>
+                        {opponent.models.length > 0 && (
+                          <select
+                            value={opponentModel}
+                            onChange={(e) => setOpponentModel(e.target.value)}
+                            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          >
+                            {opponent.models.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                          </select>
+                        )}
+                        {opponent.capabilities.needsApiKey && (
+                          <input
+                            type="password"
+                            placeholder={`${opponent.label} API key (or env key)`}
+                            value={opponentApiKey}
+                            onChange={(e) => setOpponentApiKey(e.target.value)}
+                            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500 placeholder:text-slate-600"
+                          />
+                        )}
+                        {opponent.loadModel && (
+                          <p className="text-[10px] text-slate-500">The {opponent.label} model loads on first use.</p>
+                        )}
+                      </>
+                    );
+                  })()}
+                </div>
+              )}
+
+              {activeSolver.capabilities.conversational && (
+                <div className="space-y-3 bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                  <label className="block text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Conversation Memory</label>
+                  <div className="relative">
+                    <select
+                      value={memory}
+                      onChange={(e) => setMemory(e.target.value as MemoryStrategy)}
+                      className="w-full appearance-none bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                      {MEMORY_STRATEGIES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                    </select>
+                    <div className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none">
+                      <i className="fa-solid fa-chevron-down text-xs"></i>
+                    </div>
+                  </div>
+                  {memory !== 'OFF' && (
+                    <p className="text-[10px] text-slate-500">The model sees its earlier moves and reasoning. Prompts grow with each step, and so does the cost.</p>
+                  )}
+                </div>
+              )}
+
+              {activeSolver.capabilities.promptTemplate && (() => {
+                const templates = [DEFAULT_PROMPT_TEMPLATE, ...promptTemplates];
+                const problems = validateTemplate(promptDraft.body);
+                const changed = promptDraft.body !== promptTemplate.body || promptDraft.name.trim() !== promptTemplate.name;
+                return (
+                  <div className="space-y-3 bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                    <label className="block text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Prompt Template</label>
+                    <div className="flex gap-2">
+                      <div className="relative flex-1 min-w-0">
+                        <select
+                          value={templateLabel(promptTemplate)}
+                          onChange={(e) => selectPromptTemplate(templates.find(t => templateLabel(t) === e.target.value)!)}
+                          className="w-full appearance-none bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        >
+                          {templates.map(t => <option key={templateLabel(t)} value={templateLabel(t)}>{templateLabel(t)}</option>)}
+                        </select>
+                        <div className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none">
+                          <i className="fa-solid fa-chevron-down text-xs"></i>
+                        </div>
+                      </div>
+                      <button
+                        onClick={exportPromptTemplate}
+                        className="px-3 rounded-lg bg-slate-700/50 text-slate-300 hover:bg-slate-700 hover:text-white text-xs transition-all"
+                        title="Export for the CLI (--prompt)"
+                      >
+                        <i className="fa-solid fa-file-export"></i>
+                      </button>
+                      {promptTemplate !== DEFAULT_PROMPT_TEMPLATE && (
+                        <button
+                          onClick={deletePromptTemplate}
+                          className="px-3 rounded-lg bg-slate-700/50 text-slate-300 hover:bg-red-500/20 hover:text-red-400 text-xs transition-all"
+                          title="Delete this version"
+                        >
+                          <i className="fa-solid fa-trash"></i>
+                        </button>
+                      )}
+                    </div>
+                    <textarea
+                      value={promptDraft.body}
+                      onChange={(e) => { setPromptDraft({ ...promptDraft, body: e.target.value }); setPromptError(null); }}
+                      rows={10}
+                      spellCheck={false}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-[11px] text-white font-mono focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    <p className="text-[10px] text-slate-500 leading-relaxed">
+                      Placeholders:{' '}
+                      {PROMPT_PLACEHOLDERS.map(p => (
+                        <code key={p.key} title={p.description} className="text-slate-400 mr-1">{`{{${p.key}}}`}</code>
+                      ))}
+                      <br />The reply format and candidate instructions are always added after the template.
+                    </p>
+                    {[...problems, ...(promptError ? [promptError] : [])].map(problem => (
+                      <p key={problem} className="text-[10px] text-red-400">{problem}</p>
+                    ))}
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        placeholder="Template name"
+                        value={promptDraft.name}
+                        onChange={(e) => { setPromptDraft({ ...promptDraft, name: e.target.value }); setPromptError(null); }}
+                        className="min-w-0 flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500 placeholder:text-slate-600"
+                      />
+                      <button
+                        onClick={savePromptDraft}
+                        disabled={!changed || !promptDraft.name.trim() || problems.length > 0}
+                        className="px-3 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-40"
+                      >
+                        Save Version
+                      </button>
+                    </div>
+                    {changed && (
+                      <p className="text-[10px] text-amber-400">Unsaved edits. Runs use {templateLabel(promptTemplate)} until you save a new version.</p>
+                    )}
+                  </div>
+                );
+              })()}
+
+              {activeSolver.capabilities.customEndpoint && (
+                <div className="space-y-4 bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                  <div className="group">
+                    <label className="block text-[10px] font-black text-slate-500 mb-2 uppercase tracking-[0.2em]">Server Base URL</label>
+                    <input
+                      type="text"
+                      placeholder={DEFAULT_LOCAL_BASE_URL}
+                      value={localBaseUrl}
+                      onChange={(e) => setLocalBaseUrl(e.target.value)}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white font-mono focus:outline-none focus:ring-1 focus:ring-blue-500 placeholder:text-slate-600"
+                    />
+                  </div>
+                  <div className="group">
+                    <label className="block text-[10px] font-black text-slate-500 mb-2 uppercase tracking-[0.2em]">Model Name</label>
+                    <input
+                      type="text"
+                      placeholder="e.g. llama3.1, qwen2.5:7b"
+                      value={selectedModel}
+                      onChange={(e) => setSelectedModel(e.target.value)}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white font-mono focus:outline-none focus:ring-1 focus:ring-blue-500 placeholder:text-slate-600"
+                    />
+                  </div>
+                  <div className="group">
+                    <label className="block text-[10px] font-black text-slate-500 mb-2 uppercase tracking-[0.2em]">API Key <span className="text-slate-600 font-normal normal-case tracking-normal">(If the server needs one)</span></label>
+                    <input
+                      type="password"
+                      value={userApiKey}
+                      onChange={(e) => setUserApiKey(e.target.value)}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500 placeholder:text-slate-600"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Game Rules */}
+              <div className="space-y-3 bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                <label className="block text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Backtracking</label>
+                <div className="relative">
+                  <select
+                    value={backtrackRule}
+                    onChange={(e) => setBacktrackRule(e.target.value as BacktrackRule)}
+                    className="w-full appearance-none bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  >
+                    <option value="OFF">Off (forward only)</option>
+                    <option value="FREE">Allowed, free</option>
+                    <option value="COUNTED">Allowed, counts as 1 click</option>
+                    <option value="PENALTY">Allowed, counts as 2 clicks</option>
+                  </select>
+                  <div className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none">
+                    <i className="fa-solid fa-chevron-down text-xs"></i>
+                  </div>
+                </div>
+                <label className="block text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Invalid Link Retries</label>
+                <div className="relative">
+                  <select
+                    value={linkRetries}
+                    onChange={(e) => setLinkRetries(Number(e.target.value))}
+                    className="w-full appearance-none bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  >
+                    <option value={0}>None (fail on first invalid link)</option>
+                    {[1, 2, 3, 5].map(n => <option key={n} value={n}>Re-prompt up to {n}×</option>)}
+                  </select>
+                  <div className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none">
+                    <i className="fa-solid fa-chevron-down text-xs"></i>
+                  </div>
+                </div>
+                <label className="block text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Step Limit</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={maxSteps}
+                  onChange={(e) => setMaxSteps(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white font-mono focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+                <label className="flex items-center gap-2 text-[11px] text-slate-400 cursor-pointer">
+                  <input type="checkbox" checked={progressTelemetry} onChange={(e) => setProgressTelemetry(e.target.checked)} />
+                  Progress telemetry (loads the vector model)
+                </label>
+                {([
+                  { key: 'waypoints', label: 'Waypoints', hint: 'In order, one per line' },
+                  { key: 'forbiddenPages', label: 'Forbidden Pages', hint: 'One per line' },
+                  { key: 'forbiddenCategories', label: 'Forbidden Categories', hint: 'Text to match, one per line' }
+                ] as const).map(({ key, label, hint }) => (
+                  <div key={key}>
+                    <label className="block text-[10px] font-black text-slate-500 mb-2 uppercase tracking-[0.2em]">{label} <span className="text-slate-600 font-normal normal-case tracking-normal">({hint})</span></label>
+                    {/* Uncontrolled so blank lines survive while typing; the rule keeps only non-empty lines */}
+                    <textarea
+                      rows={2}
+                      defaultValue={(rules[key] || []).join('\n')}
+                      onChange={(e) => {
+                        const lines = e.target.value.split('\n').map(line => line.trim()).filter(Boolean);
+                        setRules(prev => ({ ...prev, [key]: lines.length ? lines : undefined }));
+                      }}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500 resize-y"
+                    />
+                  </div>
+                ))}
+                {([
+                  { key: 'bodyLinksOnly', label: 'Article body links only (no infobox or navbox)' },
+                  { key: 'timeTrial', label: 'Time trial (scored by wall-clock time)' }
+                ] as const).map(({ key, label }) => (
+                  <label key={key} className="flex items-center gap-2 text-[11px] text-slate-400 cursor-pointer">
+                    <input type="checkbox" checked={!!rules[key]} onChange={(e) => setRules(prev => ({ ...prev, [key]: e.target.checked || undefined }))} />
+                    {label}
+                  </label>
+                ))}
+              </div>
+
+              {/* Budget */}
+              <div className="space-y-3 bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                <label className="block text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Run Budget <span className="text-slate-600 font-normal normal-case tracking-normal">(Blank = no limit)</span></label>
+                <div className="grid grid-cols-3 gap-2">
+                  {([
+                    { key: 'maxTokens', label: 'Tokens', scale: 1 },
+                    { key: 'maxCost', label: 'USD', scale: 1 },
+                    { key: 'maxWallTime', label: 'Minutes', scale: 60 * 1000 }
+                  ] as const).map(({ key, label, scale }) => (
+                    <div key={key}>
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={budget[key] === undefined ? '' : budget[key]! / scale}
+                        onChange={(e) => {
+                          const value = e.target.value === '' ? undefined : Number(e.target.value) * scale;
+                          setBudget(prev => ({ ...prev, [key]: value }));
+                        }}
+                        className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white font-mono focus:outline-none focus:ring-1 focus:ring-blue-500"
+                      />
+                      <span className="block text-[9px] text-slate-500 uppercase tracking-widest mt-1">{label}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Replay */}
+              <div className="space-y-2 bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                <label className="flex items-center justify-center gap-2 w-full py-2 text-[10px] font-black uppercase tracking-widest rounded-lg bg-slate-700/50 text-slate-400 hover:bg-slate-700 hover:text-slate-200 transition-all cursor-pointer">
+                  <i className="fa-solid fa-clock-rotate-left"></i> Replay a Recorded Run
+                  <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => handleReplayFile(e.target.files?.[0])} />
+                </label>
+                {replayError && <p className="text-[10px] text-red-400">{replayError}</p>}
+              </div>
+
+              {/* Page Source */}
+              <div className="space-y-3 bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                <label className="block text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Page Source</label>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={switchToLivePageSource}
+                    className={`flex-1 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all
+                      ${wikiService.getPageSource() === cachedLiveSource ? 'bg-slate-600 text-white' : 'bg-slate-700/50 text-slate-500 hover:bg-slate-700 hover:text-slate-300'}`}
+                  >
+                    <i className="fa-solid fa-globe mr-1"></i> Live
+                  </button>
+                  <label
+                    className={`flex-1 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all text-center cursor-pointer
+                      ${wikiService.getPageSource().id === 'local' ? 'bg-slate-600 text-white' : 'bg-slate-700/50 text-slate-500 hover:bg-slate-700 hover:text-slate-300'}`}
+                  >
+                    <i className="fa-solid fa-box-archive mr-1"></i> Snapshot
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={(e) => handleSnapshotFile(e.target.files?.[0])}
+                    />
+                  </label>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <select
+                      value={language}
+                      onChange={(e) => selectLanguage(e.target.value)}
+                      disabled={wikiService.getPageSource().id === 'local'}
+                      title={wikiService.getPageSource().id === 'local' ? 'A snapshot cannot change edition; switch to Live first' : undefined}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-[11px] text-white focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      {WIKI_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.nativeName} ({l.code})</option>)}
+                    </select>
+                    <span className="block text-[9px] text-slate-500 uppercase tracking-widest mt-1">Wiki language</span>
+                  </div>
+                  <div>
+                    <select
+                      value={targetLanguage || ''}
+                      onChange={(e) => setTargetLanguage(e.target.value || null)}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-[11px] text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                      <option value="">Same as wiki</option>
+                      {WIKI_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.nativeName} ({l.code})</option>)}
+                    </select>
+                    <span className="block text-[9px] text-slate-500 uppercase tracking-widest mt-1">Target given in</span>
+                  </div>
+                </div>
+                <p className="text-[10px] text-slate-500 font-mono truncate">{pageSourceLabel}</p>
+                {wikiService.getPageSource() === cachedLiveSource && (
+                  <div className="flex items-center justify-between text-[10px] text-slate-400">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="checkbox" checked={prefetchEnabled} onChange={(e) => setPrefetchEnabled(e.target.checked)} />
+                      Prefetch likely links
+                    </label>
+                    <button onClick={() => cachedLiveSource.clearCache()} className="text-slate-500 hover:text-white transition-colors">
+                      <i className="fa-solid fa-broom mr-1"></i> Clear cache
+                    </button>
+                  </div>
+                )}
+                {snapshotError && <p className="text-[10px] text-red-400">{snapshotError}</p>}
+              </div>
               
+              {/* Seeded pairs */}
+              <div className="space-y-3 bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                <button
+                  onClick={() => localizePair(dailyChallenge()).then(applyPair)}
+                  className="w-full py-2 text-[10px] font-black uppercase tracking-widest rounded-lg bg-amber-500/10 text-amber-400 border border-amber-500/20 hover:bg-amber-500/20 transition-all"
+                >
+                  <i className="fa-solid fa-calendar-day mr-2"></i> Daily Challenge
+                </button>
+                <label className="block text-[10px] font-black text-slate-500 uppercase tracking-[0.2em]">Seeded Pair <span className="text-slate-600 font-normal normal-case tracking-normal">(Blank seed = new one)</span></label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    placeholder="Seed"
+                    value={seedInput}
+                    onChange={(e) => setSeedInput(e.target.value)}
+                    className="min-w-0 flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white font-mono focus:outline-none focus:ring-1 focus:ring-blue-500 placeholder:text-slate-600"
+                  />
+                  <button
+                    onClick={handleGeneratePair}
+                    disabled={pairBusy}
+                    className="px-3 rounded-lg bg-slate-700/50 text-slate-300 hover:bg-slate-700 hover:text-white text-xs transition-all disabled:opacity-40"
+                    title="Generate pair"
+                  >
+                    <i className={`fa-solid ${pairBusy ? 'fa-spinner fa-spin' : 'fa-dice'}`}></i>
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <select
+                    value={pairPool}
+                    onChange={(e) => setPairPool(e.target.value as PairPool)}
+                    className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-[11px] text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  >
+                    <option value="curated">Curated pool</option>
+                    <option value="linked">Well-linked pages</option>
+                  </select>
+                  <select
+                    value={pairTier}
+                    onChange={(e) => setPairTier(e.target.value as BenchmarkTier | '')}
+                    className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-2 text-[11px] text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  >
+                    <option value="">Any difficulty</option>
+                    <option value="easy">Easy</option>
+                    <option value="medium">Medium</option>
+                    <option value="hard">Hard</option>
+                  </select>
+                </div>
+                <div className="flex items-center justify-between text-[10px] text-slate-500">
+                  <span className="font-mono truncate">{pairSeed ? `Seed: ${pairSeed}` : 'Hand-picked pair'}</span>
+                  {pairDifficulty === 'estimating' ? (
+                    <span><i className="fa-solid fa-spinner fa-spin mr-1"></i> Estimating…</span>
+                  ) : pairDifficulty ? (
+                    <span
+                      className="uppercase font-bold text-slate-300"
+                      title={pairDifficulty.directLink ? 'The start page links straight to the target' : `Score ${pairDifficulty.score.toFixed(2)}`}
+                    >
+                      Est. {pairDifficulty.tier}
+                    </span>
+                  ) : (
+                    <button onClick={handleEstimateDifficulty} className="hover:text-white transition-colors">
+                      <i className="fa-solid fa-gauge mr-1"></i> Estimate difficulty
+                    </button>
+                  )}
+                </div>
+                {pairError && <p className="text-[10px] text-red-400">{pairError}</p>}
+              </div>
+
               <div className="space-y-6">
                 <div className="group">
                   <label className="block text-[10px] font-black text-slate-500 mb-2 uppercase tracking-[0.2em]">Origin Coordinate</label>
@@ -551,25 +1448,28 @@ export default function App() {
                     <input 
                       type="text"
                       value={startPage}
-                      onChange={(e) => setStartPage(e.target.value)}
+                      onChange={(e) => { setStartPage(e.target.value); clearPairSeed(); }}
                       className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all font-medium"
                     />
-                    <button onClick={() => wikiService.fetchRandomPageTitle().then(setStartPage)} className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 hover:text-white transition-colors">
+                    <button onClick={() => wikiService.fetchRandomPageTitle().then(title => { setStartPage(title); clearPairSeed(); })} className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 hover:text-white transition-colors">
                       <i className="fa-solid fa-shuffle text-sm"></i>
                     </button>
                   </div>
                 </div>
 
                 <div className="group">
-                  <label className="block text-[10px] font-black text-slate-500 mb-2 uppercase tracking-[0.2em]">Target Objective</label>
+                  <label className="block text-[10px] font-black text-slate-500 mb-2 uppercase tracking-[0.2em]">
+                    Target Objective
+                    {isCrossLanguage && <span className="text-slate-600 font-normal normal-case tracking-normal"> (on {targetLanguage}.wikipedia.org, resolved at start)</span>}
+                  </label>
                   <div className="relative">
                     <input 
                       type="text"
                       value={targetPage}
-                      onChange={(e) => setTargetPage(e.target.value)}
+                      onChange={(e) => { setTargetPage(e.target.value); clearPairSeed(); }}
                       className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all font-medium"
                     />
-                    <button onClick={() => wikiService.fetchRandomPageTitle().then(setTargetPage)} className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 hover:text-white transition-colors">
+                    <button onClick={() => wikiService.fetchRandomPageTitle().then(title => { setTargetPage(title); clearPairSeed(); })} className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 hover:text-white transition-colors">
                       <i className="fa-solid fa-shuffle text-sm"></i>
                     </button>
                   </div>
@@ -578,10 +1478,7 @@ export default function App() {
                 <button 
                   onClick={handleStartGame}
                   className={`w-full font-black py-4 rounded-xl transition-all shadow-lg active:scale-[0.98] uppercase tracking-[0.2em] text-white
-                    ${solver === 'GEMINI' ? 'bg-blue-600 hover:bg-blue-500 shadow-blue-900/40' : ''}
-                    ${solver === 'VECTORS' ? 'bg-purple-600 hover:bg-purple-500 shadow-purple-900/40' : ''}
-                    ${solver === 'OPENAI' ? 'bg-emerald-600 hover:bg-emerald-500 shadow-emerald-900/40' : ''}
-                    ${solver === 'CLAUDE' ? 'bg-amber-600 hover:bg-amber-500 shadow-amber-900/40' : ''}
+                    bg-${activeSolver.color}-600 hover:bg-${activeSolver.color}-500 shadow-${activeSolver.color}-900/40
                   `}
                 >
                   Engage {solver}
@@ -600,34 +1497,55 @@ export default function App() {
                         <i className={`fa-solid fa-chevron-${isChatMinimized ? 'up' : 'down'}`}></i>
                      </button>
                      <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Decision Pipeline</h2>
+                     <div className="flex bg-slate-800 rounded-md p-0.5" onClick={(e) => e.stopPropagation()}>
+                       {(['steps', 'graph'] as const).map(view => (
+                         <button
+                           key={view}
+                           onClick={() => setPipelineView(view)}
+                           title={view === 'steps' ? 'Step log' : 'Path graph'}
+                           className={`px-2 py-0.5 rounded text-[10px] transition-colors ${pipelineView === view ? 'bg-slate-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                         >
+                           <i className={`fa-solid ${view === 'steps' ? 'fa-list' : 'fa-diagram-project'}`}></i>
+                         </button>
+                       ))}
+                     </div>
                    </div>
                    <div className="flex items-center gap-2">
-                     <span className={`w-2 h-2 rounded-full ${status === GameStatus.PLAYING ? (solver === 'GEMINI' ? 'bg-blue-500' : 'bg-purple-500') + ' animate-pulse' : (status === GameStatus.PAUSED ? 'bg-amber-500' : 'bg-slate-700')}`}></span>
+                     <span className={`w-2 h-2 rounded-full ${status === GameStatus.PLAYING ? `bg-${activeSolver.color}-500 animate-pulse` : (status === GameStatus.PAUSED ? 'bg-amber-500' : 'bg-slate-700')}`}></span>
                      <span className="text-[10px] text-slate-400 font-mono uppercase tracking-tighter">
-                       {status === GameStatus.LOADING_STEP ? 'Computing...' : (status === GameStatus.PAUSED ? 'Paused' : 'Active')}
+                       {status === GameStatus.LOADING_STEP ? 'Computing...' : (status === GameStatus.PAUSED ? 'Paused' : status === GameStatus.REPLAY ? 'Replay' : 'Active')}
                      </span>
                    </div>
                 </div>
               </div>
               <div className="flex-1 overflow-y-auto p-6 space-y-1 bg-slate-900/50 scroll-smooth custom-scrollbar" ref={scrollRef}>
-                {history.map((step, idx) => (
+                {pipelineView === 'graph' ? (
+                  <PathGraph
+                    history={history}
+                    targetPage={playTarget}
+                    currentPage={replay ? pageAtPosition(replay, replayPosition + 1) : currentWikiPage?.title}
+                    measureSimilarity={progressTelemetry || activeSolver.capabilities.needsModelLoad}
+                    selectedPosition={replay ? replayPosition : inspected?.position ?? null}
+                    onSelectPosition={viewPosition}
+                  />
+                ) : history.map((step, idx) => (
                   <StepCard key={idx} step={step} index={idx} />
                 ))}
                 
                 {status === GameStatus.LOADING_STEP && (
                   <div className={`
-                    bg-${solver === 'GEMINI' ? 'blue' : solver === 'OPENAI' ? 'emerald' : solver === 'CLAUDE' ? 'amber' : 'purple'}-500/5 
-                    border border-${solver === 'GEMINI' ? 'blue' : solver === 'OPENAI' ? 'emerald' : solver === 'CLAUDE' ? 'amber' : 'purple'}-500/20 
+                    bg-${activeSolver.color}-500/5 
+                    border border-${activeSolver.color}-500/20 
                     rounded-xl p-4 animate-pulse
                   `}>
-                    <div className={`flex items-center gap-3 text-${solver === 'GEMINI' ? 'blue' : solver === 'OPENAI' ? 'emerald' : solver === 'CLAUDE' ? 'amber' : 'purple'}-400 mb-2`}>
-                      <i className={`fa-solid ${solver === 'VECTORS' ? 'fa-bezier-curve' : 'fa-microchip'} text-xs`}></i>
+                    <div className={`flex items-center gap-3 text-${activeSolver.color}-400 mb-2`}>
+                      <i className={`fa-solid ${activeSolver.icon} text-xs`}></i>
                       <span className="text-[10px] font-black uppercase tracking-widest">
-                        {solver === 'VECTORS' ? 'Calculating Vectors...' : 'Reasoning...'}
+                        {activeSolver.thinkingLabel}
                       </span>
                     </div>
-                    <div className={`h-2 bg-${solver === 'GEMINI' ? 'blue' : solver === 'OPENAI' ? 'emerald' : solver === 'CLAUDE' ? 'amber' : 'purple'}-500/20 rounded-full w-full mb-2`}></div>
-                    <div className={`h-2 bg-${solver === 'GEMINI' ? 'blue' : solver === 'OPENAI' ? 'emerald' : solver === 'CLAUDE' ? 'amber' : 'purple'}-500/20 rounded-full w-2/3`}></div>
+                    <div className={`h-2 bg-${activeSolver.color}-500/20 rounded-full w-full mb-2`}></div>
+                    <div className={`h-2 bg-${activeSolver.color}-500/20 rounded-full w-2/3`}></div>
                   </div>
                 )}
               </div>
@@ -650,19 +1568,29 @@ export default function App() {
                    <div className="text-3xl font-mono font-bold">{history.length}</div>
                    <div className="text-[10px] uppercase text-slate-400 font-bold tracking-widest">Total Steps</div>
                 </div>
+                {backtrackRule !== 'OFF' && (
+                  <div>
+                     <div className="text-3xl font-mono font-bold">{scoreRun(history, backtrackRule)}</div>
+                     <div className="text-[10px] uppercase text-slate-400 font-bold tracking-widest">Score (Clicks)</div>
+                  </div>
+                )}
+                {rules.timeTrial && history.length > 0 && (
+                  <div>
+                     <div className="text-3xl font-mono font-bold">{((history[history.length - 1].timestamp - runStartRef.current) / 1000).toFixed(1)}s</div>
+                     <div className="text-[10px] uppercase text-slate-400 font-bold tracking-widest">Time</div>
+                  </div>
+                )}
                 <div>
                    <div className="text-3xl font-mono font-bold">{getAvgTime()}ms</div>
                    <div className="text-[10px] uppercase text-slate-400 font-bold tracking-widest">Avg Time/Step</div>
                 </div>
               </div>
-              <div className="text-lg text-slate-300 max-w-md font-medium mb-10">
-                The <strong className={`
-                  ${solver === 'GEMINI' ? 'text-blue-400' : ''}
-                  ${solver === 'VECTORS' ? 'text-purple-400' : ''}
-                  ${solver === 'OPENAI' ? 'text-emerald-400' : ''}
-                  ${solver === 'CLAUDE' ? 'text-amber-400' : ''}
-                `}>{solver}</strong> solver successfully navigated to "{targetPage}".
+              <div className="text-lg text-slate-300 max-w-md font-medium mb-6">
+                The <strong className={`text-${activeSolver.color}-400`}>{solver}</strong> solver successfully navigated to "{playTarget}".
               </div>
+              {challengeResult}
+              <OptimalPath startPage={startPage} targetPage={playTarget} />
+              {exportControls}
               <button 
                 onClick={resetGame}
                 className="bg-emerald-500 hover:bg-emerald-400 text-white px-12 py-4 rounded-full font-black uppercase tracking-widest shadow-xl transition-all hover:scale-105 active:scale-95"
@@ -678,7 +1606,10 @@ export default function App() {
                 <i className="fa-solid fa-circle-exclamation text-4xl"></i>
               </div>
               <h2 className="text-5xl font-black mb-2 tracking-tighter uppercase italic">Mission Failed</h2>
-              <p className="text-lg text-slate-300 max-w-md mb-10">{error}</p>
+              <p className="text-lg text-slate-300 max-w-md mb-6">{error}</p>
+              {challengeResult}
+              <OptimalPath startPage={startPage} targetPage={playTarget} />
+              {exportControls}
               <button 
                 onClick={resetGame}
                 className="bg-white text-slate-900 px-12 py-4 rounded-full font-black uppercase tracking-widest shadow-xl transition-all hover:scale-105 active:scale-95"
@@ -688,20 +1619,28 @@ export default function App() {
             </div>
           )}
 
-          {currentWikiPage ? (
+          {inspected && (
+            <div className="shrink-0 px-6 py-2 text-xs text-blue-900 bg-blue-50 border-b border-blue-100 flex items-center justify-between">
+              <span><i className="fa-solid fa-diagram-project mr-2"></i>Viewing step {inspected.position + 1}: {inspected.page.title}</span>
+              <button onClick={() => setInspected(null)} className="font-bold hover:underline">Back to live page</button>
+            </div>
+          )}
+
+          {displayedPage ? (
             <div className="flex-1 overflow-y-auto scroll-smooth" id="wiki-viewport" ref={viewportRef}>
               <div className="p-8 md:p-14 max-w-4xl mx-auto bg-white shadow-sm min-h-full border-x border-slate-200">
                 <div className="mb-10 border-b border-slate-100 pb-6">
                    <h1 className="text-4xl font-serif text-[#000] mb-2 leading-tight">
-                    {currentWikiPage.title}
+                    {displayedPage.title}
                   </h1>
                   <div className="text-[13px] text-[#54595d]">From Wikipedia, the free encyclopedia</div>
                 </div>
 
                 <div 
                   ref={contentRef}
-                  className="wiki-content"
-                  dangerouslySetInnerHTML={{ __html: currentWikiPage.extract || '' }}
+                  className={`wiki-content ${activeSolver.capabilities.interactive && !inspected ? 'interactive' : ''}`}
+                  onClick={inspected ? undefined : handleContentClick}
+                  dangerouslySetInnerHTML={{ __html: displayedPage.extract || '' }}
                 />
               </div>
             </div>
@@ -723,25 +1662,60 @@ export default function App() {
               )}
             </div>
           )}
+
+          {replay && (
+            <>
+              {replayError && <div className="shrink-0 px-6 py-2 text-xs text-red-600 bg-red-50 border-t border-red-100">{replayError}</div>}
+              <ReplayControls
+                position={replayPosition}
+                total={replay.steps.length}
+                isPlaying={isReplayPlaying}
+                onTogglePlay={() => {
+                  if (replayPosition >= replay.steps.length) setReplayPosition(0);
+                  setIsReplayPlaying(prev => !prev);
+                }}
+                onSeek={(position) => {
+                  setIsReplayPlaying(false);
+                  setReplayPosition(position);
+                }}
+                onExit={resetGame}
+              />
+            </>
+          )}
         </section>
+
+        {opponentRun && <OpponentPanel run={opponentRun} maxSteps={maxSteps} />}
       </main>
       
       {/* Footer / Ticker */}
       <footer className="bg-slate-900 border-t border-slate-800 text-slate-600 px-6 py-2 text-[9px] font-mono flex items-center justify-between z-30 shrink-0">
         <div className="flex gap-4 uppercase tracking-widest font-black">
           <span className="flex items-center gap-2">
-             <span className={`w-1.5 h-1.5 rounded-full 
-               ${solver === 'GEMINI' ? 'bg-blue-500' : ''}
-               ${solver === 'VECTORS' ? 'bg-purple-500' : ''}
-               ${solver === 'OPENAI' ? 'bg-emerald-500' : ''}
-               ${solver === 'CLAUDE' ? 'bg-amber-500' : ''}
-             `}></span>
+             <span className={`w-1.5 h-1.5 rounded-full bg-${activeSolver.color}-500`}></span>
              Solver: {solver}
           </span>
           <span className="flex items-center gap-2">
              <span className="w-1.5 h-1.5 rounded-full bg-emerald-500"></span>
              Status: {status === GameStatus.LOADING_STEP ? 'Computing' : 'Ready'}
           </span>
+          {wikiService.getPageSource() === cachedLiveSource && (() => {
+            const stats = cachedLiveSource.getStats();
+            return (
+              <span className="hidden md:flex items-center gap-2" title={`${stats.sharedInFlight} shared in-flight, ${stats.prefetched} prefetched, ${stats.avgMissLatency.toFixed(0)}ms avg miss`}>
+                <span className="w-1.5 h-1.5 rounded-full bg-sky-500"></span>
+                Cache: {stats.hits} hits / {stats.misses} misses · ~{(stats.estimatedSavedMs / 1000).toFixed(1)}s saved
+              </span>
+            );
+          })()}
+          {activeSolver.capabilities.needsModelLoad && (() => {
+            const stats = getEmbeddingStats();
+            return (
+              <span className="hidden md:flex items-center gap-2" title={`${stats.hits} hits / ${stats.misses} misses, ${stats.avgMissLatency.toFixed(1)}ms per embedded title`}>
+                <span className="w-1.5 h-1.5 rounded-full bg-violet-500"></span>
+                Embeddings: {(stats.hitRate * 100).toFixed(0)}% cached · ~{(stats.estimatedSavedMs / 1000).toFixed(1)}s saved
+              </span>
+            );
+          })()}
         </div>
         <div className="opacity-50">
           DESIGNATED FOR AUTONOMOUS EXPLORATION ONLY
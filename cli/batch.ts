@@ -0,0 +1,233 @@
+// Headless batch runner: plays every (start, target) pair in a file, or seeded
+// generated pairs, with one solver and writes one JSON line per run.
+//
+//   npm run batch -- --pairs pairs.txt --solver GEMINI --model gemini-1.5-flash --out results.jsonl
+//   npm run batch -- --daily --solver VECTORS
+import { readFile, appendFile, writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import * as wikiService from '../services/wikiService';
+import { formatCacheStats, pageSourceUsage, pageSourceOptions, setupPageSource } from './pageSourceSetup';
+import { budgetOptions, budgetUsage, parseBudget } from './budgetOptions';
+import { parseRules, rulesOptions, rulesUsage } from './rulesOptions';
+import { loadPromptTemplates, promptOptions } from './promptOptions';
+import { embeddingCacheOptions, embeddingCacheUsage, formatEmbeddingStats, setupEmbeddingCache } from './embeddingCacheSetup';
+import { findSolver, listSolvers } from '../services/solverRegistry';
+import { BACKTRACK_COST, runGame } from '../services/gameRunner';
+import { formatCost } from '../services/costService';
+import { DEFAULT_LINK_RETRIES } from '../services/linkValidation';
+import { parseMemory } from '../services/conversationService';
+import { BacktrackRule, MemoryStrategy } from '../types';
+import { BenchmarkTier } from '../services/benchmarkSuites';
+import { dailyChallenge, generatePair, localizePair, PairPool } from '../services/pairGenerator';
+import { validateLanguage } from '../services/languages';
+
+const USAGE = `Usage: npm run batch -- (--pairs <file> | --daily | --seed <text>) [options]
+
+Options:
+  --pairs <file>       Pairs to run. JSON array or JSON lines of {"start","target"},
+                       or plain text with one "Start<TAB>Target" or "Start -> Target" per line.
+  --daily              Play today's daily challenge (UTC date)
+  --seed <text>        Play pairs generated from this seed instead of a file
+  --count <n>          Seeded pairs to generate (seeds <text>-1, <text>-2, ...). Default: 1
+  --pool <name>        Seeded pair pool: curated or linked (well-linked pages). Default: curated
+  --tier <tier>        Seeded pair difficulty: easy, medium or hard. Default: any
+  --target-lang <code> Targets are titles on this Wikipedia edition, resolved to the played
+                       edition (--lang) through interlanguage links
+  --solver <id>        Solver id (${listSolvers().map(s => s.id).join(', ')}). Default: GEMINI
+  --model <name>       Model name. Default: the solver's default model
+  --api-key <key>      API key. Default: the solver's environment variable
+  --base-url <url>     OpenAI-compatible server for the LOCAL solver. Default: VITE_LOCAL_LLM_BASE_URL
+                       or http://localhost:11434/v1 (Ollama)
+  --max-steps <n>      Step limit per run. Default: 40
+  --backtrack <rule>   Back moves: OFF, FREE, COUNTED (1 click) or PENALTY (2 clicks). Default: OFF
+  --link-retries <n>   Re-prompts after a pick that is not on the page. Default: 2
+  --memory <mode>      LLM conversation memory: OFF, FULL, WINDOW or SUMMARY. Default: OFF
+  --prompt <file>      LLM prompt template: a text file with {{placeholders}}, or a JSON template
+                       exported from the UI. Default: the built-in template
+  --prefetch <n>       Prefetch this many likely next pages while the solver thinks. Default: 0
+  --progress           Record each step's similarity and category overlap with the target
+                       (loads the vector model)
+  --out <file>         JSONL output file. Default: stdout
+${budgetUsage(23)}
+${rulesUsage(23)}
+${pageSourceUsage(23)}
+${embeddingCacheUsage(23)}
+  --help               Show this message`;
+
+export interface PagePair {
+  start: string;
+  target: string;
+  seed?: string; // Set for generated pairs
+}
+
+export function parsePairs(text: string): PagePair[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    return (JSON.parse(trimmed) as PagePair[]).map(validatePair);
+  }
+
+  return trimmed
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      if (line.startsWith('{')) return validatePair(JSON.parse(line));
+      const [start, target] = line.includes('\t') ? line.split('\t') : line.split(' -> ');
+      return validatePair({ start: start?.trim(), target: target?.trim() });
+    });
+}
+
+function validatePair(pair: any): PagePair {
+  if (!pair || typeof pair.start !== 'string' || typeof pair.target !== 'string' || !pair.start || !pair.target) {
+    throw new Error(`Invalid pair: ${JSON.stringify(pair)}`);
+  }
+  return { start: pair.start, target: pair.target };
+}
+
+async function seededPairs(seed: string, rawCount: string, pool: string, tier: string | undefined): Promise<PagePair[]> {
+  const count = parseInt(rawCount, 10);
+  if (!Number.isInteger(count) || count <= 0) {
+    throw new Error(`--count must be a positive integer, got "${rawCount}".`);
+  }
+  if (pool !== 'curated' && pool !== 'linked') throw new Error(`Unknown --pool "${pool}".`);
+  if (tier !== undefined && !['easy', 'medium', 'hard'].includes(tier)) throw new Error(`Unknown --tier "${tier}".`);
+
+  const pairs: PagePair[] = [];
+  for (let i = 1; i <= count; i++) {
+    const pair = await generatePair(count === 1 ? seed : `${seed}-${i}`, { pool: pool as PairPool, tier: tier as BenchmarkTier | undefined });
+    console.error(`Seed ${pair.seed}: ${pair.start} -> ${pair.target}` + (pair.difficulty ? ` (est. ${pair.difficulty.tier})` : ''));
+    pairs.push(pair);
+  }
+  return pairs;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      pairs: { type: 'string' },
+      daily: { type: 'boolean', default: false },
+      seed: { type: 'string' },
+      count: { type: 'string', default: '1' },
+      pool: { type: 'string', default: 'curated' },
+      tier: { type: 'string' },
+      'target-lang': { type: 'string' },
+      solver: { type: 'string', default: 'GEMINI' },
+      model: { type: 'string' },
+      'api-key': { type: 'string' },
+      'base-url': { type: 'string' },
+      'max-steps': { type: 'string', default: '40' },
+      backtrack: { type: 'string', default: 'OFF' },
+      'link-retries': { type: 'string', default: String(DEFAULT_LINK_RETRIES) },
+      memory: { type: 'string', default: 'OFF' },
+      prefetch: { type: 'string', default: '0' },
+      progress: { type: 'boolean', default: false },
+      out: { type: 'string' },
+      ...budgetOptions,
+      ...rulesOptions,
+      ...promptOptions,
+      ...pageSourceOptions,
+      ...embeddingCacheOptions,
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help || (!values.pairs && !values.daily && !values.seed)) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const solver = findSolver(values.solver!);
+  if (!solver) throw new Error(`Unknown solver "${values.solver}".`);
+  const model = values.model || solver.defaultModel;
+  const maxSteps = parseInt(values['max-steps']!, 10);
+  if (!Number.isInteger(maxSteps) || maxSteps <= 0) {
+    throw new Error(`--max-steps must be a positive integer, got "${values['max-steps']}".`);
+  }
+
+  const backtrackRule = values.backtrack!.toUpperCase() as BacktrackRule;
+  if (!(backtrackRule in BACKTRACK_COST)) {
+    throw new Error(`Unknown --backtrack rule "${values.backtrack}".`);
+  }
+
+  const memory = parseMemory(values.memory!);
+  if (memory !== 'OFF' && !solver.capabilities.conversational) {
+    throw new Error(`The ${solver.label} solver does not support --memory.`);
+  }
+
+  const promptTemplates = await loadPromptTemplates(values);
+  if (promptTemplates && promptTemplates.length > 1) {
+    throw new Error('Batch runs take one --prompt; use the benchmark to compare templates.');
+  }
+  if (promptTemplates && !solver.capabilities.promptTemplate) {
+    throw new Error(`The ${solver.label} solver does not use prompt templates.`);
+  }
+
+  const prefetch = parseInt(values.prefetch!, 10) || 0;
+  const budget = parseBudget(values);
+  const rules = parseRules(values);
+  const targetLanguage = values['target-lang'] ? validateLanguage(values['target-lang']) : undefined;
+  const linkRetries = parseInt(values['link-retries']!, 10);
+  if (!Number.isInteger(linkRetries) || linkRetries < 0) {
+    throw new Error(`--link-retries must be a non-negative integer, got "${values['link-retries']}".`);
+  }
+  const cache = await setupPageSource(values);
+  setupEmbeddingCache(values);
+
+  if (solver.loadModel) await solver.loadModel();
+
+  const pairs = values.pairs
+    ? parsePairs(await readFile(values.pairs, 'utf8'))
+    : values.daily
+      ? [await localizePair(dailyChallenge())]
+      : await seededPairs(values.seed!, values.count!, values.pool!, values.tier);
+  if (values.out) await writeFile(values.out, '');
+
+  let successes = 0;
+  let totalCost = 0;
+  for (const [i, pair] of pairs.entries()) {
+    const result = await runGame({
+      startPage: pair.start,
+      targetPage: pair.target,
+      solver: solver.id,
+      model,
+      apiKey: values['api-key'],
+      baseUrl: values['base-url'],
+      maxSteps,
+      backtrackRule,
+      prefetch,
+      budget,
+      linkRetries,
+      measureProgress: values.progress,
+      rules,
+      targetLanguage,
+      memory,
+      promptTemplate: promptTemplates?.[0]
+    });
+    const seed = pair.seed ? { seed: pair.seed } : {};
+    if (result.outcome === 'SUCCESS') successes++;
+    totalCost += result.cost;
+
+    const line = JSON.stringify({ pageSource: wikiService.getPageSource().id, ...seed, ...result }) + '\n';
+    if (values.out) {
+      // Append per run so a crash overnight keeps everything finished so far
+      await appendFile(values.out, line);
+    } else {
+      process.stdout.write(line);
+    }
+
+    console.error(
+      `[${i + 1}/${pairs.length}] ${pair.start} -> ${pair.target}: ${result.outcome} in ${result.steps} steps${rules?.timeTrial ? ` (${(result.totalDuration / 1000).toFixed(1)}s)` : ''}, ${formatCost(result.cost)}` +
+      (result.failureReason ? ` (${result.failureReason})` : '')
+    );
+  }
+
+  console.error(`Done: ${successes}/${pairs.length} succeeded, ${formatCost(totalCost)} spent.`);
+  if (cache) console.error(formatCacheStats(cache));
+  const embeddingStats = formatEmbeddingStats();
+  if (embeddingStats) console.error(embeddingStats);
+}
+
+main().catch(err => {
+  console.error(err.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,155 @@
+// Benchmark runner: plays a versioned suite against one or more solver configs
+// and prints a leaderboard. The JSON report can be imported in the UI.
+//
+//   npm run benchmark -- --config GEMINI:gemini-1.5-flash --config VECTORS --tiers easy,medium --out report.json
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { formatCacheStats, pageSourceUsage, pageSourceOptions, setupPageSource } from './pageSourceSetup';
+import { budgetOptions, budgetUsage, parseBudget } from './budgetOptions';
+import { parseRules, rulesOptions, rulesUsage } from './rulesOptions';
+import { loadPromptTemplates, promptOptions } from './promptOptions';
+import { embeddingCacheOptions, embeddingCacheUsage, formatEmbeddingStats, setupEmbeddingCache } from './embeddingCacheSetup';
+import { findSolver, getSolver } from '../services/solverRegistry';
+import { BENCHMARK_SUITES, BenchmarkTier, getBenchmarkSuite } from '../services/benchmarkSuites';
+import { BenchmarkConfig, computeLeaderboard, isTimeTrial, runBenchmark } from '../services/benchmarkService';
+import { formatCost } from '../services/costService';
+import { DEFAULT_LINK_RETRIES } from '../services/linkValidation';
+import { parseMemory } from '../services/conversationService';
+
+const USAGE = `Usage: npm run benchmark -- --config <solver[:model]> [--config ...] [options]
+
+Options:
+  --config <solver[:model]>  Solver config to benchmark; repeat for several. Model defaults to the solver's default.
+  --suite <version>          Suite version (${BENCHMARK_SUITES.map(s => s.version).join(', ')}). Default: latest
+  --tiers <list>             Comma-separated tiers: easy, medium, hard. Default: all
+  --max-steps <n>            Step limit per run. Default: 40
+  --base-url <url>           OpenAI-compatible server for LOCAL configs. Default: VITE_LOCAL_LLM_BASE_URL
+                             or http://localhost:11434/v1 (Ollama)
+  --link-retries <n>         Re-prompts after a pick that is not on the page. Default: 2
+  --memory <list>            Comma-separated LLM conversation memory modes (OFF, FULL, WINDOW, SUMMARY);
+                             conversational configs run once per mode. Default: OFF
+  --prompt <file>            LLM prompt template (text with {{placeholders}}, or JSON exported from the UI);
+                             repeat to compare versions, "default" for the built-in one. LLM configs
+                             run once per template. Default: the built-in template
+  --oracle                   Compute unknown optimal path lengths with the shortest-path oracle
+  --out <file>               Write the full JSON report here
+${budgetUsage(29)}
+${rulesUsage(29)}
+${pageSourceUsage(29)}
+${embeddingCacheUsage(29)}
+  --help                     Show this message
+
+API keys are read from the environment (API_KEY, VITE_OPENAI_API_KEY, VITE_ANTHROPIC_API_KEY).
+LOCAL model names may contain colons (e.g. LOCAL:qwen2.5:7b); everything after the first colon is the model.`;
+
+const TIERS: BenchmarkTier[] = ['easy', 'medium', 'hard'];
+
+function parseConfig(value: string): BenchmarkConfig {
+  const [solverId, ...modelParts] = value.split(':');
+  const solver = findSolver(solverId);
+  if (!solver) throw new Error(`Unknown solver "${solverId}".`);
+  return { solver: solver.id, model: modelParts.join(':') || solver.defaultModel };
+}
+
+const fmt = (value: number | null, digits = 1) => (value === null ? '-' : value.toFixed(digits));
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      config: { type: 'string', multiple: true },
+      suite: { type: 'string', default: BENCHMARK_SUITES[BENCHMARK_SUITES.length - 1].version },
+      tiers: { type: 'string' },
+      'max-steps': { type: 'string', default: '40' },
+      'base-url': { type: 'string' },
+      'link-retries': { type: 'string', default: String(DEFAULT_LINK_RETRIES) },
+      memory: { type: 'string', default: 'OFF' },
+      oracle: { type: 'boolean', default: false },
+      out: { type: 'string' },
+      ...budgetOptions,
+      ...rulesOptions,
+      ...promptOptions,
+      ...pageSourceOptions,
+      ...embeddingCacheOptions,
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help || !values.config?.length) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const suite = getBenchmarkSuite(values.suite!);
+  // Each conversational config runs once per memory mode, so stateless and stateful results sit side by side;
+  // likewise once per prompt template, so v1 and v2 of a prompt are compared on the same model
+  const memories = values.memory!.split(',').map(parseMemory);
+  const promptTemplates = await loadPromptTemplates(values);
+  const configs = values.config.flatMap(value => {
+    const config: BenchmarkConfig = { ...parseConfig(value), baseUrl: values['base-url'] };
+    const { conversational, promptTemplate } = getSolver(config.solver).capabilities;
+    const withMemory = conversational ? memories.map(memory => ({ ...config, memory })) : [config];
+    return promptTemplates && promptTemplate
+      ? withMemory.flatMap(c => promptTemplates.map(template => ({ ...c, promptTemplate: template })))
+      : withMemory;
+  });
+  const tiers = values.tiers ? (values.tiers.split(',').map(t => t.trim()) as BenchmarkTier[]) : TIERS;
+  const unknownTier = tiers.find(t => !TIERS.includes(t));
+  if (unknownTier) throw new Error(`Unknown tier "${unknownTier}".`);
+  const maxSteps = parseInt(values['max-steps']!, 10);
+  if (!Number.isInteger(maxSteps) || maxSteps <= 0) {
+    throw new Error(`--max-steps must be a positive integer, got "${values['max-steps']}".`);
+  }
+
+  const linkRetries = parseInt(values['link-retries']!, 10);
+  if (!Number.isInteger(linkRetries) || linkRetries < 0) {
+    throw new Error(`--link-retries must be a non-negative integer, got "${values['link-retries']}".`);
+  }
+
+  const cache = await setupPageSource(values);
+  setupEmbeddingCache(values);
+
+  for (const config of configs) {
+    const solver = getSolver(config.solver);
+    if (solver.loadModel) await solver.loadModel();
+  }
+
+  const report = await runBenchmark(suite, configs, {
+    tiers,
+    maxSteps,
+    budget: parseBudget(values),
+    rules: parseRules(values),
+    linkRetries,
+    computeOptimal: values.oracle,
+    onRun: (run, completed, total) => {
+      console.error(`[${completed}/${total}] ${run.configLabel} | ${run.tier} | ${run.startPage} -> ${run.targetPage}: ${run.outcome} in ${run.steps} steps`);
+    }
+  });
+
+  if (values.out) {
+    await writeFile(values.out, JSON.stringify(report, null, 2));
+    console.error(`Report written to ${values.out}`);
+  }
+  if (cache) console.error(formatCacheStats(cache));
+  const embeddingStats = formatEmbeddingStats();
+  if (embeddingStats) console.error(embeddingStats);
+
+  const timeTrial = isTimeTrial(report.runs);
+  console.log(`\nLeaderboard — suite ${suite.version} (${tiers.join(', ')})${timeTrial ? ', time trial' : ''}\n`);
+  console.table(computeLeaderboard(report.runs).map(e => ({
+    config: e.configLabel,
+    success: `${e.successes}/${e.runs} (${(e.successRate * 100).toFixed(0)}%)`,
+    ...(timeTrial ? { 'mean time (s)': e.meanSuccessTime === null ? '-' : (e.meanSuccessTime / 1000).toFixed(1) } : {}),
+    'mean path': fmt(e.meanPathLength),
+    'median path': fmt(e.medianPathLength),
+    'vs optimal': e.meanExcessOverOptimal === null ? '-' : `+${fmt(e.meanExcessOverOptimal)}`,
+    'invalid/step': fmt(e.invalidLinkRate, 2),
+    'ms/step': fmt(e.meanStepDuration, 0),
+    cost: formatCost(e.totalCost),
+    'wall time (s)': (e.totalWallTime / 1000).toFixed(1)
+  })));
+}
+
+main().catch(err => {
+  console.error(err.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+// Run budget flags shared by the CLI entry points.
+import { RunBudget } from '../types';
+
+// Help lines for the shared flags, with descriptions starting at column `width`.
+export const budgetUsage = (width: number) => [
+  ['--max-tokens <n>', 'End a run as FAILED once it has used this many tokens'],
+  ['--max-cost <usd>', 'End a run as FAILED once it has cost this many dollars'],
+  ['--max-time <s>', 'End a run as FAILED after this many seconds']
+].map(([flag, text]) => `  ${flag}`.padEnd(width) + text).join('\n');
+
+export const budgetOptions = {
+  'max-tokens': { type: 'string' },
+  'max-cost': { type: 'string' },
+  'max-time': { type: 'string' }
+} as const;
+
+export function parseBudget(values: { 'max-tokens'?: string; 'max-cost'?: string; 'max-time'?: string }): RunBudget {
+  const parse = (flag: keyof typeof budgetOptions, scale = 1) => {
+    const raw = values[flag];
+    if (raw === undefined) return undefined;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`--${flag} must be a positive number, got "${raw}".`);
+    }
+    return value * scale;
+  };
+  return {
+    maxTokens: parse('max-tokens'),
+    maxCost: parse('max-cost'),
+    maxWallTime: parse('max-time', 1000)
+  };
+}
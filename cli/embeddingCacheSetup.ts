@@ -0,0 +1,24 @@
+// Embedding cache flag shared by the CLI entry points.
+import { getEmbeddingStats, setEmbeddingStore } from '../services/vectorService';
+import { createFileEmbeddingStore } from '../services/embeddingCacheFs';
+
+// Help lines for the shared flags, with descriptions starting at column `width`.
+export const embeddingCacheUsage = (width: number) => [
+  ['--embed-cache <file>', 'Keep VECTORS/HYBRID title embeddings in this file across runs']
+].map(([flag, text]) => `  ${flag}`.padEnd(width) + text).join('\n');
+
+export const embeddingCacheOptions = {
+  'embed-cache': { type: 'string' }
+} as const;
+
+export function setupEmbeddingCache(values: { 'embed-cache'?: string }) {
+  if (values['embed-cache']) setEmbeddingStore(createFileEmbeddingStore(values['embed-cache']));
+}
+
+// Null when nothing was embedded, e.g. in LLM-only runs.
+export function formatEmbeddingStats(): string | null {
+  const stats = getEmbeddingStats();
+  if (!stats.hits && !stats.misses) return null;
+  return `Embedding cache: ${stats.hits} hits, ${stats.misses} misses (${(stats.hitRate * 100).toFixed(1)}% hit rate), ` +
+    `~${(stats.estimatedSavedMs / 1000).toFixed(1)}s saved`;
+}
@@ -0,0 +1,47 @@
+// Page source flags shared by the CLI entry points.
+import { join } from 'path';
+import * as wikiService from '../services/wikiService';
+import { createLocalPageSource } from '../services/localWikiSource';
+import { readSnapshot } from '../services/snapshotFs';
+import { CachedPageSource, createCachedPageSource } from '../services/pageCache';
+import { createFileStore } from '../services/pageCacheFs';
+import { DEFAULT_LANGUAGE, validateLanguage } from '../services/languages';
+
+// Help lines for the shared flags, with descriptions starting at column `width`.
+export const pageSourceUsage = (width: number) => [
+  ['--snapshot <path>', 'Play against a local snapshot file or directory of action=parse responses'],
+  ['--cache <dir>', 'Cache live pages on disk in this directory (ignored with --snapshot)'],
+  ['--lang <code>', 'Wikipedia edition to play on, e.g. de or ja; with --snapshot, the snapshot\'s edition. Default: en']
+].map(([flag, text]) => `  ${flag}`.padEnd(width) + text).join('\n');
+
+export const pageSourceOptions = {
+  snapshot: { type: 'string' },
+  cache: { type: 'string' },
+  lang: { type: 'string' }
+} as const;
+
+// Activates the requested page source. Returns the cache when one is in use, for stats.
+export async function setupPageSource(values: { snapshot?: string; cache?: string; lang?: string }): Promise<CachedPageSource | null> {
+  const language = values.lang ? validateLanguage(values.lang) : undefined;
+  if (values.snapshot) {
+    const local = createLocalPageSource(await readSnapshot(values.snapshot), values.snapshot);
+    wikiService.setPageSource(language ? { ...local, language } : local);
+    return null;
+  }
+  const live = wikiService.createLivePageSource(language);
+  if (values.cache) {
+    // One subdirectory per non-English edition, so titles never collide across languages
+    const dir = !language || language === DEFAULT_LANGUAGE ? values.cache : join(values.cache, language);
+    const cached = createCachedPageSource(live, createFileStore(dir));
+    wikiService.setPageSource(cached);
+    return cached;
+  }
+  wikiService.setPageSource(live);
+  return null;
+}
+
+export function formatCacheStats(cache: CachedPageSource): string {
+  const stats = cache.getStats();
+  return `Page cache: ${stats.hits} hits, ${stats.misses} misses, ${stats.sharedInFlight} shared in-flight, ` +
+    `${stats.prefetched} prefetched, ~${(stats.estimatedSavedMs / 1000).toFixed(1)}s saved`;
+}
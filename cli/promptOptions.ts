@@ -0,0 +1,21 @@
+// Prompt template flag shared by the CLI entry points.
+import { readFile } from 'fs/promises';
+import { PromptTemplate } from '../types';
+import { DEFAULT_PROMPT_TEMPLATE, parseTemplateFile, templateLabel } from '../services/promptTemplates';
+
+export const promptOptions = {
+  prompt: { type: 'string', multiple: true }
+} as const;
+
+// Templates named by --prompt, in order: files, or "default" for the built-in one.
+// Undefined when the flag is absent.
+export async function loadPromptTemplates(values: { prompt?: string[] }): Promise<PromptTemplate[] | undefined> {
+  if (!values.prompt?.length) return undefined;
+  const templates = await Promise.all(values.prompt.map(async file =>
+    file === DEFAULT_PROMPT_TEMPLATE.name ? DEFAULT_PROMPT_TEMPLATE : parseTemplateFile(await readFile(file, 'utf8'), file)
+  ));
+  const labels = templates.map(templateLabel);
+  const duplicate = labels.find((label, i) => labels.indexOf(label) !== i);
+  if (duplicate) throw new Error(`Two --prompt templates are both "${duplicate}"; rename one so results can be told apart.`);
+  return templates;
+}
@@ -0,0 +1,41 @@
+// Rule variant flags shared by the CLI entry points.
+import { GameRules } from '../types';
+
+// Help lines for the shared flags, with descriptions starting at column `width`.
+export const rulesUsage = (width: number) => [
+  ['--forbid <title>', 'Fail a run that enters this page. Repeatable'],
+  ['--forbid-cat <text>', 'Fail a run that enters a page with a category containing this text. Repeatable'],
+  ['--waypoint <title>', 'Page to visit before the target; repeat for several, visited in order'],
+  ['--body-links-only', 'Fail a run that clicks an infobox or navbox link'],
+  ['--time-trial', 'Score runs by wall-clock time; also tells solvers to be quick']
+].map(([flag, text]) => `  ${flag}`.padEnd(width) + text).join('\n');
+
+export const rulesOptions = {
+  forbid: { type: 'string', multiple: true },
+  'forbid-cat': { type: 'string', multiple: true },
+  waypoint: { type: 'string', multiple: true },
+  'body-links-only': { type: 'boolean', default: false },
+  'time-trial': { type: 'boolean', default: false }
+} as const;
+
+export function parseRules(values: {
+  forbid?: string[];
+  'forbid-cat'?: string[];
+  waypoint?: string[];
+  'body-links-only'?: boolean;
+  'time-trial'?: boolean;
+}): GameRules | undefined {
+  const list = (flag: 'forbid' | 'forbid-cat' | 'waypoint') => {
+    const items = (values[flag] || []).map(item => item.trim());
+    if (items.some(item => !item)) throw new Error(`--${flag} needs a non-empty value.`);
+    return items.length ? items : undefined;
+  };
+  const rules: GameRules = {
+    forbiddenPages: list('forbid'),
+    forbiddenCategories: list('forbid-cat'),
+    waypoints: list('waypoint'),
+    bodyLinksOnly: values['body-links-only'] || undefined,
+    timeTrial: values['time-trial'] || undefined
+  };
+  return Object.values(rules).some(v => v !== undefined) ? rules : undefined;
+}
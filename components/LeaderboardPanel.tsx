@@ -0,0 +1,231 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { BENCHMARK_SUITES, BenchmarkTier } from '../services/benchmarkSuites';
+import { getSolver } from '../services/solverRegistry';
+import {
+  BenchmarkConfig,
+  BenchmarkReport,
+  computeLeaderboard,
+  configLabel,
+  isTimeTrial,
+  deleteReport,
+  loadReports,
+  parseReportJson,
+  runBenchmark,
+  saveReport
+} from '../services/benchmarkService';
+import { formatCost } from '../services/costService';
+import { templateLabel } from '../services/promptTemplates';
+import { PromptTemplate } from '../types';
+
+const TIERS: BenchmarkTier[] = ['easy', 'medium', 'hard'];
+
+const fmt = (value: number | null, digits = 1) => (value === null ? '–' : value.toFixed(digits));
+
+interface LeaderboardPanelProps {
+  config: BenchmarkConfig;
+  promptTemplates: PromptTemplate[]; // Versions the config can be compared across
+  maxSteps: number;
+  onClose: () => void;
+}
+
+export const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ config, promptTemplates, maxSteps, onClose }) => {
+  const [reports, setReports] = useState<BenchmarkReport[]>(loadReports);
+  const [selectedId, setSelectedId] = useState<string | null>(reports[reports.length - 1]?.id ?? null);
+  const [suiteVersion, setSuiteVersion] = useState(BENCHMARK_SUITES[BENCHMARK_SUITES.length - 1].version);
+  const [tiers, setTiers] = useState<BenchmarkTier[]>(['easy']);
+  // Extra template versions to run alongside the config's own, for A/B comparisons
+  const [comparePrompts, setComparePrompts] = useState<string[]>([]);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const selected = reports.find(r => r.id === selectedId) || null;
+  const leaderboard = useMemo(() => (selected ? computeLeaderboard(selected.runs) : []), [selected]);
+  const timeTrial = !!selected && isTimeTrial(selected.runs); // Ranked by mean time instead of path length
+
+  const toggleTier = (tier: BenchmarkTier) =>
+    setTiers(prev => (prev.includes(tier) ? prev.filter(t => t !== tier) : [...prev, tier]));
+
+  const toggleComparePrompt = (label: string) =>
+    setComparePrompts(prev => (prev.includes(label) ? prev.filter(l => l !== label) : [...prev, label]));
+
+  // One config per prompt version; solvers without templates run once
+  const configs: BenchmarkConfig[] = config.promptTemplate
+    ? [config.promptTemplate, ...promptTemplates.filter(t => comparePrompts.includes(templateLabel(t)) && templateLabel(t) !== templateLabel(config.promptTemplate!))]
+        .map(promptTemplate => ({ ...config, promptTemplate }))
+    : [config];
+
+  const handleRun = async () => {
+    const suite = BENCHMARK_SUITES.find(s => s.version === suiteVersion)!;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress('Starting...');
+    try {
+      const report = await runBenchmark(suite, configs, {
+        tiers,
+        maxSteps,
+        computeOptimal: true,
+        signal: controller.signal,
+        onRun: (run, completed, total) =>
+          setProgress(`${completed}/${total} · ${run.startPage} → ${run.targetPage}: ${run.outcome}`)
+      });
+      setReports(saveReport(report));
+      setSelectedId(report.id);
+    } catch (err: any) {
+      setError(`Benchmark failed: ${err.message}`);
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const report = parseReportJson(await file.text());
+      setReports(saveReport(report));
+      setSelectedId(report.id);
+      setError(null);
+    } catch (err: any) {
+      setError(`Import failed: ${err.message}`);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    const remaining = deleteReport(selected.id);
+    setReports(remaining);
+    setSelectedId(remaining[remaining.length - 1]?.id ?? null);
+  };
+
+  return (
+    <div className="absolute inset-0 z-[60] bg-slate-950/80 backdrop-blur-sm flex items-start justify-center p-6 overflow-y-auto">
+      <div className="w-full max-w-4xl bg-slate-900 text-slate-200 rounded-2xl border border-slate-700 shadow-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <div className="flex items-center gap-3">
+            <i className="fa-solid fa-trophy text-amber-400"></i>
+            <h2 className="text-sm font-black uppercase tracking-widest">Solver Leaderboard</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors" title="Close">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+
+        {/* Run / import controls */}
+        <div className="px-6 py-4 border-b border-slate-800 flex flex-wrap items-center gap-3 text-[10px] font-black uppercase tracking-widest">
+          <select
+            value={suiteVersion}
+            onChange={(e) => setSuiteVersion(e.target.value)}
+            className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-white"
+          >
+            {BENCHMARK_SUITES.map(s => (
+              <option key={s.version} value={s.version}>Suite {s.version}</option>
+            ))}
+          </select>
+          {TIERS.map(tier => (
+            <label key={tier} className="flex items-center gap-1 text-slate-400 cursor-pointer">
+              <input type="checkbox" checked={tiers.includes(tier)} onChange={() => toggleTier(tier)} />
+              {tier}
+            </label>
+          ))}
+          {progress ? (
+            <button onClick={() => abortRef.current?.abort()} className="bg-red-600 hover:bg-red-500 text-white px-3 py-1.5 rounded-lg">
+              <i className="fa-solid fa-stop mr-1"></i> Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={tiers.length === 0 || getSolver(config.solver).capabilities.interactive}
+              className="bg-amber-600 hover:bg-amber-500 disabled:opacity-40 text-white px-3 py-1.5 rounded-lg"
+            >
+              <i className="fa-solid fa-play mr-1"></i> Run {configs.length > 1 ? `${configs.length} prompt versions` : configLabel(config)}
+            </button>
+          )}
+          <label className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-1.5 rounded-lg cursor-pointer">
+            <i className="fa-solid fa-file-import mr-1"></i> Import
+            <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => handleImport(e.target.files?.[0])} />
+          </label>
+        </div>
+        {config.promptTemplate && promptTemplates.length > 1 && (
+          <div className="px-6 py-3 border-b border-slate-800 flex flex-wrap items-center gap-3 text-[10px] font-black uppercase tracking-widest">
+            <span className="text-slate-500">Compare prompts</span>
+            {promptTemplates.map(t => {
+              const label = templateLabel(t);
+              const own = label === templateLabel(config.promptTemplate!);
+              return (
+                <label key={label} className="flex items-center gap-1 text-slate-400 cursor-pointer normal-case tracking-normal">
+                  <input type="checkbox" checked={own || comparePrompts.includes(label)} disabled={own} onChange={() => toggleComparePrompt(label)} />
+                  {label}
+                </label>
+              );
+            })}
+          </div>
+        )}
+        {progress && <div className="px-6 py-2 text-[11px] font-mono text-amber-300 border-b border-slate-800">{progress}</div>}
+        {error && <div className="px-6 py-2 text-[11px] text-red-400 border-b border-slate-800">{error}</div>}
+
+        {/* Saved reports */}
+        <div className="px-6 py-4 space-y-4">
+          {reports.length === 0 ? (
+            <p className="text-sm text-slate-500">No benchmark results yet. Run a suite or import a report from <code>npm run benchmark</code>.</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-3">
+                <select
+                  value={selectedId ?? ''}
+                  onChange={(e) => setSelectedId(e.target.value)}
+                  className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white"
+                >
+                  {reports.map(r => (
+                    <option key={r.id} value={r.id}>
+                      Suite {r.suiteVersion} · {r.tiers.join('/')} · {new Date(r.startedAt).toLocaleString()} · {r.runs.length} runs
+                    </option>
+                  ))}
+                </select>
+                <button onClick={handleDelete} className="text-slate-500 hover:text-red-400 transition-colors" title="Delete report">
+                  <i className="fa-solid fa-trash"></i>
+                </button>
+              </div>
+
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-[10px] uppercase tracking-widest text-slate-500 text-left">
+                    <th className="py-2">#</th>
+                    <th>Config</th>
+                    <th className="text-right">Success</th>
+                    {timeTrial && <th className="text-right">Mean Time</th>}
+                    <th className="text-right">Mean Path</th>
+                    <th className="text-right">Median</th>
+                    <th className="text-right">vs Optimal</th>
+                    <th className="text-right">Invalid/Step</th>
+                    <th className="text-right">Avg Time/Step</th>
+                    <th className="text-right">Wall Time</th>
+                    <th className="text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {leaderboard.map((entry, idx) => (
+                    <tr key={entry.configLabel} className="border-t border-slate-800">
+                      <td className="py-2 text-slate-500">{idx + 1}</td>
+                      <td className="font-sans font-bold text-slate-200">{entry.configLabel}</td>
+                      <td className="text-right">{entry.successes}/{entry.runs} ({(entry.successRate * 100).toFixed(0)}%)</td>
+                      {timeTrial && <td className="text-right">{entry.meanSuccessTime === null ? '–' : `${(entry.meanSuccessTime / 1000).toFixed(1)}s`}</td>}
+                      <td className="text-right">{fmt(entry.meanPathLength)}</td>
+                      <td className="text-right">{fmt(entry.medianPathLength)}</td>
+                      <td className="text-right">{entry.meanExcessOverOptimal === null ? '–' : `+${fmt(entry.meanExcessOverOptimal)}`}</td>
+                      <td className="text-right">{fmt(entry.invalidLinkRate, 2)}</td>
+                      <td className="text-right">{fmt(entry.meanStepDuration, 0)}ms</td>
+                      <td className="text-right">{(entry.totalWallTime / 1000).toFixed(1)}s</td>
+                      <td className="text-right">{formatCost(entry.totalCost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { useEffect, useRef } from 'react';
+import { GameStatus, GameStep, SolverType } from '../types';
+import { getSolver } from '../services/solverRegistry';
+import { StepCard } from './StepCard';
+
+export interface OpponentRun {
+  solver: SolverType;
+  model?: string;
+  history: GameStep[];
+  pageTitle: string | null;
+  status: GameStatus;
+  failureReason?: string;
+}
+
+// Side panel showing the AI's progress during a human-vs-AI challenge.
+export const OpponentPanel: React.FC<{ run: OpponentRun; maxSteps: number }> = ({ run, maxSteps }) => {
+  const solver = getSolver(run.solver);
+  const logRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (logRef.current) logRef.current.scrollTop = logRef.current.scrollHeight;
+  }, [run.history]);
+
+  let statusLabel = 'Racing';
+  if (run.status === GameStatus.SUCCESS) statusLabel = 'Finished';
+  if (run.status === GameStatus.FAILED) statusLabel = 'Out';
+
+  return (
+    <aside className="hidden lg:flex flex-col w-80 shrink-0 bg-slate-900 border-l border-slate-800 min-h-0">
+      <div className={`px-4 py-3 bg-${solver.color}-600 text-white`}>
+        <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
+          <span><i className={`fa-solid ${solver.icon} mr-2`}></i>Opponent · {solver.label}</span>
+          <span>{statusLabel}</span>
+        </div>
+        <div className="flex items-end justify-between mt-2">
+          <span className="text-xs font-mono opacity-75 truncate">{run.model}</span>
+          <span className="text-xl font-mono font-bold">{run.history.length}<span className="text-sm opacity-60">/{maxSteps}</span></span>
+        </div>
+      </div>
+      <div className="px-4 py-2 text-xs text-slate-400 border-b border-slate-800 truncate">
+        <i className="fa-solid fa-location-dot mr-2"></i>{run.pageTitle || 'Loading...'}
+      </div>
+      <div ref={logRef} className="flex-1 overflow-y-auto p-4 custom-scrollbar">
+        {run.history.map((step, idx) => (
+          <StepCard key={idx} step={step} index={idx} />
+        ))}
+        {run.failureReason && <p className="text-xs text-red-400">{run.failureReason}</p>}
+      </div>
+    </aside>
+  );
+};
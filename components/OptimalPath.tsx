@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import { findShortestPath, OracleResult } from '../services/oracleService';
+
+// "Optimal: N clicks" line for the end-of-run panels, computed on mount.
+export const OptimalPath: React.FC<{ startPage: string; targetPage: string }> = ({ startPage, targetPage }) => {
+  const [result, setResult] = useState<OracleResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setResult(null);
+    setError(null);
+    findShortestPath(startPage, targetPage, { signal: controller.signal })
+      .then(setResult)
+      .catch(err => {
+        if (!controller.signal.aborted) setError(err.message);
+      });
+    return () => controller.abort();
+  }, [startPage, targetPage]);
+
+  let content: React.ReactNode;
+  if (error) {
+    content = <span className="text-slate-400">Optimal path unavailable: {error}</span>;
+  } else if (!result) {
+    content = (
+      <span className="text-slate-400">
+        <i className="fa-solid fa-circle-notch fa-spin mr-2"></i>Computing optimal path...
+      </span>
+    );
+  } else if (!result.path) {
+    content = (
+      <span className="text-slate-400">
+        {result.limitReached ? 'Optimal path not found within search limits' : 'No path exists'} ({result.requests} requests)
+      </span>
+    );
+  } else {
+    content = (
+      <>
+        <div className="font-black uppercase tracking-widest text-[10px] text-slate-400 mb-1">
+          {result.limitReached ? 'Shortest found' : 'Optimal'}: <span className="text-white text-sm font-mono">{result.clicks} clicks</span>
+          {result.limitReached && <span className="normal-case tracking-normal font-normal ml-2">(search incomplete; may not be optimal)</span>}
+        </div>
+        <div className="text-slate-300">{result.path.join(' → ')}</div>
+      </>
+    );
+  }
+
+  return <div className="text-xs max-w-xl mb-8 bg-white/5 border border-white/10 rounded-xl px-4 py-3">{content}</div>;
+};
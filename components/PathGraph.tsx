@@ -0,0 +1,228 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GameStep } from '../types';
+import { normalizeTitle } from '../services/wikiService';
+import { rankLinks } from '../services/vectorService';
+
+// Positions follow runRecording.pageAtPosition: position p < history.length is the
+// page step p was taken from, position history.length is the page the run is on now.
+
+const ROW = 56; // Vertical distance between pages, in px
+const NODE_X = 56;
+const BRANCH_X = 250;
+const WIDTH = 360;
+const RUNNERS_UP = 3; // Faded branches per step
+
+interface GraphNode {
+  key: string;
+  title: string;
+  y: number;
+  positions: number[]; // Every position the run was on this page
+}
+
+interface GraphEdge {
+  from: GraphNode;
+  to: GraphNode;
+  step: number;
+  kind: 'forward' | 'revisit' | 'back';
+}
+
+interface GraphBranch {
+  from: GraphNode;
+  title: string;
+  y: number;
+}
+
+const destinationOf = (step: GameStep) => (step.action === 'BACK' ? step.backTo : step.selectedLink);
+
+// Nodes are the pages actually loaded, so a redirect link and its article are one
+// node. The last position is the live page; until it catches up with the latest
+// step (while the chosen link is highlighted), the step's destination stands in.
+function buildGraph(history: GameStep[], currentPage?: string) {
+  const titles = history.map(step => step.pageTitle);
+  const last = history[history.length - 1];
+  if (last) {
+    const landed = currentPage && currentPage !== last.pageTitle ? currentPage : destinationOf(last);
+    if (landed) titles.push(landed);
+  }
+
+  const nodes = new Map<string, GraphNode>();
+  const atPosition = titles.map((title, position) => {
+    const key = normalizeTitle(title);
+    let node = nodes.get(key);
+    if (!node) {
+      node = { key, title, y: 28 + nodes.size * ROW, positions: [] };
+      nodes.set(key, node);
+    }
+    node.positions.push(position);
+    return node;
+  });
+
+  const edges: GraphEdge[] = [];
+  const branches = new Map<string, GraphBranch[]>(); // Latest step's runners-up per page
+  history.forEach((step, i) => {
+    const from = atPosition[i];
+    const to = atPosition[i + 1];
+    if (to) {
+      const kind = step.action === 'BACK' ? 'back' : to.positions[0] <= i ? 'revisit' : 'forward';
+      edges.push({ from, to, step: i, kind });
+    }
+    if (step.action !== 'BACK' && step.candidates) {
+      const runnersUp = step.candidates
+        .filter(c => c.link !== step.selectedLink && c.link !== step.fallbackFrom)
+        .slice(0, RUNNERS_UP);
+      branches.set(from.key, runnersUp.map((c, k) => ({ from, title: c.link, y: from.y + (k + 0.5) * (ROW / RUNNERS_UP) - ROW / 4 })));
+    }
+  });
+
+  return { nodes: Array.from(nodes.values()), edges, branches: Array.from(branches.values()).flat(), atPosition };
+}
+
+// Red (far from the target) to green (close), from cosine similarity.
+const similarityColor = (score: number | undefined) =>
+  score === undefined ? '#64748b' : `hsl(${Math.round(Math.max(0, Math.min(1, score)) * 130)}, 70%, 50%)`;
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+export const PathGraph: React.FC<{
+  history: GameStep[];
+  targetPage: string;
+  currentPage?: string; // Title of the page the run is on now
+  measureSimilarity: boolean; // Embed pages without a recorded similarity; loads the vector model
+  selectedPosition: number | null; // Position shown in the article pane when it is not the live page
+  onSelectPosition: (position: number) => void;
+}> = ({ history, targetPage, currentPage, measureSimilarity, selectedPosition, onSelectPosition }) => {
+  const [showRunnersUp, setShowRunnersUp] = useState(false);
+  const [scores, setScores] = useState<Map<string, number>>(new Map());
+  const [scoreError, setScoreError] = useState<string | null>(null);
+
+  const { nodes, edges, branches, atPosition } = useMemo(() => buildGraph(history, currentPage), [history, currentPage]);
+  const currentNode = atPosition[atPosition.length - 1];
+  const selectedNode = selectedPosition !== null ? atPosition[selectedPosition] : currentNode;
+  const targetKey = normalizeTitle(targetPage);
+
+  // Steps measured with progress telemetry already carry their page's similarity
+  const recorded = useMemo(() => new Map(history
+    .filter(step => step.progress?.similarity !== undefined)
+    .map((step): [string, number] => [step.pageTitle, step.progress!.similarity!])), [history]);
+  const scoreOf = (title: string) => recorded.get(title) ?? scores.get(title);
+
+  // The rest are embedded only when similarity is being measured anyway; the embedding
+  // cache makes repeat titles free, so only new pages reach the model
+  const titles = [...nodes.map(n => n.title), ...(showRunnersUp ? branches.map(b => b.title) : [])];
+  const missingKey = measureSimilarity ? titles.filter(t => scoreOf(t) === undefined).join('\n') : '';
+  useEffect(() => {
+    if (!missingKey) return;
+    let cancelled = false;
+    rankLinks(missingKey.split('\n'), targetPage)
+      .then(ranked => {
+        if (cancelled) return;
+        setScoreError(null);
+        setScores(prev => new Map([...prev, ...ranked.map((c): [string, number] => [c.link, c.score])]));
+      })
+      .catch(err => {
+        if (!cancelled) setScoreError(err.message);
+      });
+    return () => { cancelled = true; };
+  }, [missingKey, targetPage]);
+
+  // Scores are relative to one target
+  useEffect(() => setScores(new Map()), [targetPage]);
+
+  if (!nodes.length) {
+    return <p className="text-xs text-slate-500 italic">The graph appears after the first move.</p>;
+  }
+
+  const height = nodes[nodes.length - 1].y + ROW / 2;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-[10px] text-slate-400">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={showRunnersUp} onChange={(e) => setShowRunnersUp(e.target.checked)} />
+          Show runners-up
+        </label>
+        <span className="flex items-center gap-1 font-mono">
+          far
+          <span className="inline-block w-16 h-1.5 rounded-full" style={{ background: `linear-gradient(to right, ${similarityColor(0)}, ${similarityColor(0.5)}, ${similarityColor(1)})` }}></span>
+          near
+        </span>
+      </div>
+      {scoreError && <p className="text-[10px] text-amber-400">Similarity unavailable: {scoreError}</p>}
+
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" style={{ height }}>
+        {showRunnersUp && branches.map((branch, i) => (
+          <g key={`branch-${i}`} opacity={0.35}>
+            <path d={`M ${NODE_X} ${branch.from.y} C ${NODE_X + 90} ${branch.from.y}, ${BRANCH_X - 60} ${branch.y}, ${BRANCH_X} ${branch.y}`} fill="none" stroke="#64748b" strokeDasharray="2 3" />
+            <circle cx={BRANCH_X} cy={branch.y} r={4} fill={similarityColor(scoreOf(branch.title))} />
+            <text x={BRANCH_X + 8} y={branch.y + 3} className="fill-slate-400" fontSize={9}>
+              {truncate(branch.title, 16)}
+              <title>{`Runner-up from ${branch.from.title}: ${branch.title}`}</title>
+            </text>
+          </g>
+        ))}
+
+        {edges.map(edge => {
+          // Forward moves to a new page run straight down; revisits and back moves arc round the left
+          const straight = edge.kind === 'forward' && edge.to.y - edge.from.y === ROW;
+          const bend = Math.min(44, 20 + Math.abs(edge.to.y - edge.from.y) / 8);
+          const d = straight
+            ? `M ${NODE_X} ${edge.from.y} L ${NODE_X} ${edge.to.y}`
+            : `M ${NODE_X} ${edge.from.y} C ${NODE_X - bend} ${edge.from.y}, ${NODE_X - bend} ${edge.to.y}, ${NODE_X} ${edge.to.y}`;
+          return (
+            <path
+              key={`edge-${edge.step}`}
+              d={d}
+              fill="none"
+              stroke={edge.kind === 'forward' ? '#475569' : '#f59e0b'}
+              strokeWidth={1.5}
+              strokeDasharray={edge.kind === 'forward' ? undefined : '4 3'}
+            >
+              <title>{`Step ${edge.step + 1}: ${edge.from.title} → ${edge.to.title}${edge.kind === 'back' ? ' (back)' : edge.kind === 'revisit' ? ' (revisit)' : ''}`}</title>
+            </path>
+          );
+        })}
+
+        {nodes.map(node => {
+          const score = scoreOf(node.title);
+          const revisited = node.positions.length > 1;
+          const isTarget = node.key === targetKey;
+          const lastPosition = node.positions[node.positions.length - 1];
+          return (
+            <g key={node.key} className="cursor-pointer" onClick={() => onSelectPosition(lastPosition)}>
+              <title>
+                {`${node.title}\nVisited at step ${node.positions.map(p => p + 1).join(', ')}` +
+                  (score !== undefined ? `\nSimilarity to target: ${score.toFixed(3)}` : '')}
+              </title>
+              {node === selectedNode && <circle cx={NODE_X} cy={node.y} r={14} fill="none" stroke="#3b82f6" strokeWidth={2} />}
+              {revisited && <circle cx={NODE_X} cy={node.y} r={10} fill="none" stroke="#f59e0b" strokeWidth={2} />}
+              <circle
+                cx={NODE_X}
+                cy={node.y}
+                r={7}
+                fill={similarityColor(score)}
+                stroke={isTarget ? '#10b981' : node === currentNode ? '#ffffff' : '#0f172a'}
+                strokeWidth={2}
+              />
+              <text x={NODE_X + 20} y={node.y + 4} className={node === selectedNode ? 'fill-white' : 'fill-slate-300'} fontSize={11} fontWeight={node === currentNode ? 700 : 400}>
+                {truncate(node.title, 24)}
+              </text>
+              {revisited && (
+                <text x={NODE_X - 20} y={node.y + 4} textAnchor="end" className="fill-amber-400" fontSize={9} fontWeight={700}>
+                  ×{node.positions.length}
+                </text>
+              )}
+              {isTarget && (
+                <text x={NODE_X - 20} y={node.y - 8} textAnchor="end" className="fill-emerald-400" fontSize={9}>
+                  target
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <p className="text-[10px] text-slate-500">
+        Node color is similarity to "{targetPage}"{measureSimilarity ? '' : ', where progress telemetry measured it'}. Amber dashed edges are back moves and revisits; ringed nodes were visited more than once. Click a node to view that page.
+      </p>
+    </div>
+  );
+};
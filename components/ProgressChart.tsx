@@ -0,0 +1,49 @@
+import React from 'react';
+import { GameStep, StepProgress } from '../types';
+
+const WIDTH = 96;
+const HEIGHT = 24;
+
+const SERIES: { key: keyof StepProgress; label: string; color: string; dash?: string }[] = [
+  { key: 'similarity', label: 'Similarity', color: '#3b82f6' },
+  { key: 'categoryOverlap', label: 'Category overlap', color: '#8b5cf6', dash: '3 2' }
+];
+
+// Live distance-to-target sparkline for the header: one point per step, 0 at the bottom, 1 at the top.
+export const ProgressChart: React.FC<{ history: GameStep[] }> = ({ history }) => {
+  if (!history.some(step => step.progress)) return null;
+
+  const x = (i: number) => (history.length > 1 ? (i / (history.length - 1)) * WIDTH : WIDTH / 2);
+  const y = (value: number) => HEIGHT - Math.max(0, Math.min(1, value)) * HEIGHT;
+
+  const latest = history[history.length - 1].progress;
+  const summary = SERIES
+    .map(s => `${s.label}: ${latest?.[s.key] !== undefined ? latest[s.key]!.toFixed(2) : '–'}`)
+    .join('\n');
+
+  return (
+    <svg width={WIDTH} height={HEIGHT} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="mt-1 ml-auto overflow-visible">
+      <title>{`Distance to target, step ${history.length}\n${summary}`}</title>
+      <line x1={0} y1={HEIGHT} x2={WIDTH} y2={HEIGHT} stroke="#e2e8f0" />
+      {SERIES.map(series => {
+        // Steps without this signal break the line rather than dropping to zero
+        const segments: string[][] = [[]];
+        history.forEach((step, i) => {
+          const value = step.progress?.[series.key];
+          if (value === undefined) {
+            segments.push([]);
+          } else {
+            segments[segments.length - 1].push(`${x(i).toFixed(1)},${y(value).toFixed(1)}`);
+          }
+        });
+        return segments.filter(points => points.length).map((points, i) =>
+          points.length === 1 ? (
+            <circle key={`${series.key}-${i}`} cx={points[0].split(',')[0]} cy={points[0].split(',')[1]} r={1.5} fill={series.color} />
+          ) : (
+            <polyline key={`${series.key}-${i}`} points={points.join(' ')} fill="none" stroke={series.color} strokeWidth={1.5} strokeDasharray={series.dash} />
+          )
+        );
+      })}
+    </svg>
+  );
+};
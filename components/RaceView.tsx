@@ -0,0 +1,366 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GameRules, GameStatus, GameStep, MemoryStrategy, PromptTemplate, SolverType, WikiPage } from '../types';
+import { getSolver, listSolvers } from '../services/solverRegistry';
+import { runGame } from '../services/gameRunner';
+import { DEFAULT_LOCAL_BASE_URL } from '../services/localLlmService';
+import { MEMORY_STRATEGIES } from '../services/conversationService';
+import { DEFAULT_PROMPT_TEMPLATE, templateLabel } from '../services/promptTemplates';
+import { StepCard } from './StepCard';
+import { highlightLink } from './highlightLink';
+
+const MIN_LANES = 2;
+const MAX_LANES = 4;
+const HIGHLIGHT_DELAY = 1000; // ms to show the chosen link before moving on
+
+interface LaneConfig {
+  solver: SolverType;
+  model?: string;
+  apiKey: string;
+  baseUrl: string;
+  memory: MemoryStrategy; // Same solver in two lanes with different memory compares stateless and stateful play
+  promptTemplate: PromptTemplate;
+}
+
+interface LaneState {
+  page: WikiPage | null;
+  history: GameStep[];
+  status: GameStatus;
+  highlightedLink: string | null;
+  finishPosition: number | null;
+  error: string | null;
+}
+
+const defaultLaneConfig = (solver: SolverType): LaneConfig => ({
+  solver,
+  model: getSolver(solver).defaultModel,
+  apiKey: '',
+  baseUrl: '',
+  memory: 'OFF',
+  promptTemplate: DEFAULT_PROMPT_TEMPLATE
+});
+
+const initialLaneState = (): LaneState => ({
+  page: null,
+  history: [],
+  status: GameStatus.STARTING,
+  highlightedLink: null,
+  finishPosition: null,
+  error: null
+});
+
+const ordinal = (n: number) => ['1st', '2nd', '3rd', '4th'][n - 1] || `${n}th`;
+
+const RaceLane: React.FC<{ config: LaneConfig; lane: LaneState; maxSteps: number }> = ({ config, lane, maxSteps }) => {
+  const solver = getSolver(config.solver);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const logRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (lane.highlightedLink && contentRef.current) {
+      highlightLink(contentRef.current, lane.highlightedLink);
+    }
+  }, [lane.highlightedLink, lane.page]);
+
+  useEffect(() => {
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+  }, [lane.page?.title]);
+
+  useEffect(() => {
+    if (logRef.current) logRef.current.scrollTop = logRef.current.scrollHeight;
+  }, [lane.history]);
+
+  return (
+    <div className={`flex flex-col min-h-0 border-2 border-${solver.color}-500/40 rounded-xl overflow-hidden bg-white`}>
+      <div className={`flex items-center justify-between px-4 py-2 bg-${solver.color}-600 text-white`}>
+        <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest">
+          <i className={`fa-solid ${solver.icon}`}></i>
+          {solver.label}
+          {config.model && <span className="font-mono normal-case tracking-normal opacity-75">{config.model}</span>}
+          {config.memory !== 'OFF' && <span className="font-mono normal-case tracking-normal opacity-75">memory: {config.memory.toLowerCase()}</span>}
+          {solver.capabilities.promptTemplate && config.promptTemplate !== DEFAULT_PROMPT_TEMPLATE && (
+            <span className="font-mono normal-case tracking-normal opacity-75">prompt: {templateLabel(config.promptTemplate)}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-3 text-xs font-mono font-bold">
+          {lane.finishPosition !== null && (
+            <span className="bg-white text-slate-900 px-2 rounded-full">{ordinal(lane.finishPosition)}</span>
+          )}
+          {lane.status === GameStatus.FAILED && <span className="bg-red-900 px-2 rounded-full">DNF</span>}
+          <span>{lane.history.length}/{maxSteps}</span>
+        </div>
+      </div>
+      <div className="flex flex-1 min-h-0">
+        <div ref={logRef} className="w-2/5 overflow-y-auto bg-slate-900 p-4 custom-scrollbar">
+          {lane.history.map((step, idx) => (
+            <StepCard key={idx} step={step} index={idx} />
+          ))}
+          {lane.error && <p className="text-xs text-red-400">{lane.error}</p>}
+        </div>
+        <div ref={viewportRef} className="flex-1 overflow-y-auto scroll-smooth bg-[#f8f9fa]">
+          {lane.page ? (
+            <div className="p-6">
+              <h1 className="text-2xl font-serif text-[#000] mb-4 leading-tight">{lane.page.title}</h1>
+              <div ref={contentRef} className="wiki-content" dangerouslySetInnerHTML={{ __html: lane.page.extract || '' }} />
+            </div>
+          ) : (
+            <div className="h-full flex items-center justify-center">
+              <div className="w-10 h-10 border-4 border-slate-200 border-t-blue-500 rounded-full animate-spin"></div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface RaceViewProps {
+  startPage: string;
+  targetPage: string;
+  maxSteps: number;
+  rules?: GameRules;
+  targetLanguage?: string; // Cross-language: edition targetPage is given in
+  promptTemplates: PromptTemplate[]; // Versions lanes can pick from, the default first
+  onStartPageChange: (title: string) => void;
+  onTargetPageChange: (title: string) => void;
+}
+
+export const RaceView: React.FC<RaceViewProps> = ({ startPage, targetPage, maxSteps, rules, targetLanguage, promptTemplates, onStartPageChange, onTargetPageChange }) => {
+  const solverIds = listSolvers().filter(s => !s.capabilities.interactive).map(s => s.id);
+  const [configs, setConfigs] = useState<LaneConfig[]>(solverIds.slice(0, MIN_LANES).map(defaultLaneConfig));
+  const [lanes, setLanes] = useState<LaneState[] | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Abort any running race when leaving race mode
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateConfig = (index: number, patch: Partial<LaneConfig>) =>
+    setConfigs(prev => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+
+  const updateLane = (index: number, patch: Partial<LaneState>) =>
+    setLanes(prev => prev && prev.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+
+  const startRace = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLanes(configs.map(initialLaneState));
+
+    // Load local models up front so every lane leaves the start line together
+    const loadErrors = await Promise.all(configs.map(async config => {
+      try {
+        await getSolver(config.solver).loadModel?.();
+        return null;
+      } catch (err: any) {
+        return `Model load failed: ${err.message}`;
+      }
+    }));
+
+    let finished = 0;
+    await Promise.all(configs.map(async (config, index) => {
+      if (loadErrors[index]) {
+        updateLane(index, { status: GameStatus.FAILED, error: loadErrors[index] });
+        return;
+      }
+      updateLane(index, { status: GameStatus.PLAYING });
+
+      const result = await runGame(
+        { startPage, targetPage, solver: config.solver, model: config.model, apiKey: config.apiKey, baseUrl: config.baseUrl || undefined, maxSteps, rules, targetLanguage, memory: config.memory, promptTemplate: config.promptTemplate },
+        {
+          signal: controller.signal,
+          onPage: page => updateLane(index, { page, highlightedLink: null }),
+          onStep: async (step, selectedLink) => {
+            setLanes(prev => prev && prev.map((l, i) => (i === index ? { ...l, history: [...l.history, step], highlightedLink: selectedLink } : l)));
+            await new Promise(resolve => setTimeout(resolve, HIGHLIGHT_DELAY));
+          }
+        }
+      );
+
+      if (result.outcome === GameStatus.SUCCESS) {
+        finished += 1;
+        updateLane(index, { status: GameStatus.SUCCESS, finishPosition: finished });
+      } else {
+        updateLane(index, { status: GameStatus.FAILED, error: result.failureReason || null });
+      }
+    }));
+  };
+
+  const stopRace = () => abortRef.current?.abort();
+
+  const isRunning = lanes?.some(l => l.status === GameStatus.STARTING || l.status === GameStatus.PLAYING) ?? false;
+
+  if (!lanes) {
+    return (
+      <div className="flex-1 overflow-y-auto bg-slate-900 p-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div className="space-y-2">
+            <h2 className="text-white text-xl font-bold">Race Config</h2>
+            <p className="text-slate-500 text-[11px] leading-relaxed uppercase font-black tracking-widest">
+              Same coordinates · {MIN_LANES} to {MAX_LANES} solvers
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-[10px] font-black text-slate-500 mb-2 uppercase tracking-[0.2em]">Origin Coordinate</label>
+              <input
+                type="text"
+                value={startPage}
+                onChange={(e) => onStartPageChange(e.target.value)}
+                className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 font-medium"
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-black text-slate-500 mb-2 uppercase tracking-[0.2em]">Target Objective</label>
+              <input
+                type="text"
+                value={targetPage}
+                onChange={(e) => onTargetPageChange(e.target.value)}
+                className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 font-medium"
+              />
+            </div>
+          </div>
+
+          {configs.map((config, index) => {
+            const solver = getSolver(config.solver);
+            return (
+              <div key={index} className={`flex flex-wrap items-center gap-3 bg-slate-800/50 p-4 rounded-xl border border-${solver.color}-500/40`}>
+                <span className={`text-[10px] font-black uppercase tracking-widest text-${solver.color}-400 w-14`}>Lane {index + 1}</span>
+                <select
+                  value={config.solver}
+                  onChange={(e) => updateConfig(index, defaultLaneConfig(e.target.value as SolverType))}
+                  className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white"
+                >
+                  {solverIds.map(id => <option key={id} value={id}>{getSolver(id).label}</option>)}
+                </select>
+                {solver.models.length > 0 && (
+                  <select
+                    value={config.model}
+                    onChange={(e) => updateConfig(index, { model: e.target.value })}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white"
+                  >
+                    {solver.models.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                  </select>
+                )}
+                {solver.capabilities.conversational && (
+                  <select
+                    value={config.memory}
+                    onChange={(e) => updateConfig(index, { memory: e.target.value as MemoryStrategy })}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white"
+                    title="Conversation memory"
+                  >
+                    {MEMORY_STRATEGIES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                  </select>
+                )}
+                {solver.capabilities.promptTemplate && promptTemplates.length > 1 && (
+                  <select
+                    value={templateLabel(config.promptTemplate)}
+                    onChange={(e) => updateConfig(index, { promptTemplate: promptTemplates.find(t => templateLabel(t) === e.target.value)! })}
+                    className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white"
+                    title="Prompt template"
+                  >
+                    {promptTemplates.map(t => <option key={templateLabel(t)} value={templateLabel(t)}>{templateLabel(t)}</option>)}
+                  </select>
+                )}
+                {solver.capabilities.customEndpoint && (
+                  <>
+                    <input
+                      type="text"
+                      placeholder={DEFAULT_LOCAL_BASE_URL}
+                      value={config.baseUrl}
+                      onChange={(e) => updateConfig(index, { baseUrl: e.target.value })}
+                      className="flex-1 min-w-[180px] bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white font-mono placeholder:text-slate-600"
+                    />
+                    <input
+                      type="text"
+                      placeholder="Model"
+                      value={config.model || ''}
+                      onChange={(e) => updateConfig(index, { model: e.target.value })}
+                      className="w-32 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white font-mono placeholder:text-slate-600"
+                    />
+                  </>
+                )}
+                {solver.capabilities.needsApiKey && (
+                  <input
+                    type="password"
+                    placeholder="API key (optional)"
+                    value={config.apiKey}
+                    onChange={(e) => updateConfig(index, { apiKey: e.target.value })}
+                    className="flex-1 min-w-[140px] bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white placeholder:text-slate-600"
+                  />
+                )}
+                {configs.length > MIN_LANES && (
+                  <button
+                    onClick={() => setConfigs(prev => prev.filter((_, i) => i !== index))}
+                    className="text-slate-500 hover:text-red-400 transition-colors ml-auto"
+                    title="Remove lane"
+                  >
+                    <i className="fa-solid fa-xmark"></i>
+                  </button>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="flex gap-3">
+            {configs.length < MAX_LANES && (
+              <button
+                onClick={() => setConfigs(prev => [...prev, defaultLaneConfig(solverIds[prev.length % solverIds.length])])}
+                className="flex-1 bg-slate-800 hover:bg-slate-700 text-slate-300 font-black py-3 rounded-xl uppercase tracking-widest text-[10px]"
+              >
+                <i className="fa-solid fa-plus mr-2"></i> Add Lane
+              </button>
+            )}
+            <button
+              onClick={startRace}
+              className="flex-1 bg-blue-600 hover:bg-blue-500 text-white font-black py-3 rounded-xl uppercase tracking-[0.2em] shadow-lg active:scale-[0.98]"
+            >
+              Start Race
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Scoreboard: finishers by position, then everyone else by progress
+  const standings = lanes
+    .map((lane, index) => ({ lane, config: configs[index] }))
+    .sort((a, b) =>
+      (a.lane.finishPosition ?? Infinity) - (b.lane.finishPosition ?? Infinity) ||
+      b.lane.history.length - a.lane.history.length
+    );
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 bg-slate-100">
+      <div className="flex items-center gap-3 px-6 py-3 bg-slate-900 text-white shrink-0 overflow-x-auto">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Scoreboard</span>
+        {standings.map(({ lane, config }, idx) => {
+          const solver = getSolver(config.solver);
+          return (
+            <div key={idx} className={`flex items-center gap-2 px-3 py-1 rounded-full bg-${solver.color}-600/20 border border-${solver.color}-500/40 text-xs whitespace-nowrap`}>
+              <span className="font-black">{lane.finishPosition !== null ? ordinal(lane.finishPosition) : lane.status === GameStatus.FAILED ? 'DNF' : '—'}</span>
+              <span className={`text-${solver.color}-300 font-bold`}>{solver.label}{config.model ? ` · ${config.model}` : ''}</span>
+              <span className="font-mono text-slate-300">{lane.history.length} steps</span>
+            </div>
+          );
+        })}
+        <div className="ml-auto flex gap-2">
+          {isRunning ? (
+            <button onClick={stopRace} className="bg-red-600 hover:bg-red-500 text-white text-[10px] font-black uppercase tracking-widest px-4 py-2 rounded-full">
+              <i className="fa-solid fa-stop mr-1"></i> Stop
+            </button>
+          ) : (
+            <button onClick={() => setLanes(null)} className="bg-slate-700 hover:bg-slate-600 text-white text-[10px] font-black uppercase tracking-widest px-4 py-2 rounded-full">
+              <i className="fa-solid fa-rotate-left mr-1"></i> New Race
+            </button>
+          )}
+        </div>
+      </div>
+      <div className={`flex-1 min-h-0 grid gap-3 p-3 grid-cols-1 md:grid-cols-2 ${lanes.length > 2 ? 'md:grid-rows-2' : ''}`}>
+        {lanes.map((lane, index) => (
+          <RaceLane key={index} config={configs[index]} lane={lane} maxSteps={maxSteps} />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+
+interface ReplayControlsProps {
+  position: number; // 0..total, where total is the final page
+  total: number;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  onSeek: (position: number) => void;
+  onExit: () => void;
+}
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ position, total, isPlaying, onTogglePlay, onSeek, onExit }) => (
+  <div className="shrink-0 flex items-center gap-3 px-6 py-3 bg-slate-900 text-white border-t border-slate-800">
+    <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Replay</span>
+    <button onClick={() => onSeek(Math.max(0, position - 1))} disabled={position === 0} className="w-8 h-8 rounded-full hover:bg-slate-700 disabled:opacity-30" title="Step back">
+      <i className="fa-solid fa-backward-step"></i>
+    </button>
+    <button onClick={onTogglePlay} className="w-10 h-10 rounded-full bg-blue-600 hover:bg-blue-500" title={isPlaying ? 'Pause' : 'Play'}>
+      <i className={`fa-solid ${isPlaying ? 'fa-pause' : 'fa-play'}`}></i>
+    </button>
+    <button onClick={() => onSeek(Math.min(total, position + 1))} disabled={position === total} className="w-8 h-8 rounded-full hover:bg-slate-700 disabled:opacity-30" title="Step forward">
+      <i className="fa-solid fa-forward-step"></i>
+    </button>
+    <input
+      type="range"
+      min={0}
+      max={total}
+      value={position}
+      onChange={(e) => onSeek(Number(e.target.value))}
+      className="flex-1 accent-blue-500"
+    />
+    <span className="text-xs font-mono text-slate-300 w-20 text-right">
+      {position === total ? 'Final' : `Step ${position + 1}`} / {total}
+    </span>
+    <button onClick={onExit} className="text-slate-500 hover:text-white transition-colors" title="Exit replay">
+      <i className="fa-solid fa-xmark"></i>
+    </button>
+  </div>
+);
@@ -0,0 +1,90 @@
+import React from 'react';
+import { GameStep } from '../types';
+import { findSolver } from '../services/solverRegistry';
+import { formatCost, formatTokens } from '../services/costService';
+
+export const StepCard: React.FC<{ step: GameStep; index: number }> = ({ step, index }) => {
+  const colorClass = findSolver(step.solver)?.color || 'slate';
+
+  const borderColor = `border-${colorClass}-500`;
+  const bgColor = `bg-${colorClass}-500`;
+  const textColor = `text-${colorClass}-500`;
+
+  // The move itself is usually the first candidate; list only the alternatives
+  const runnersUp = (step.candidates || []).filter(c => c.link !== step.selectedLink && c.link !== step.fallbackFrom);
+  const prefilterRank = (step.prefilter || []).findIndex(c => c.link === step.selectedLink) + 1;
+
+  return (
+    <div className={`border-l-2 ${borderColor} pl-4 py-3 mb-6 relative group transition-all`}>
+      <div className={`absolute -left-[9px] top-4 w-4 h-4 rounded-full ${bgColor} border-2 border-white shadow-sm group-hover:scale-125 transition-transform`}></div>
+      <div className="flex justify-between items-center mb-1">
+        <div className={`text-[10px] ${textColor} font-black uppercase tracking-widest`}>
+          Step {index + 1} • {step.solver}
+          {step.action === 'BACK' && (
+            <span className="ml-2 text-slate-400"><i className="fa-solid fa-rotate-left mr-1"></i>Back</span>
+          )}
+        </div>
+        <div className="text-[10px] text-slate-400 font-mono">
+          {step.usage && (
+            <span className="mr-2" title={`${step.usage.inputTokens} in / ${step.usage.outputTokens} out`}>
+              {formatTokens(step.usage.inputTokens + step.usage.outputTokens)} tok{step.cost !== undefined && ` · ${formatCost(step.cost)}`}
+            </span>
+          )}
+          {step.duration.toFixed(0)}ms
+        </div>
+      </div>
+      <div className="font-bold text-slate-200 leading-tight mb-2">
+        {step.pageTitle}
+        {step.action === 'BACK' && <span className="text-slate-500 font-normal"> → back to {step.backTo}</span>}
+      </div>
+      {step.invalidChoices && (
+        <div className="text-[10px] text-amber-400 mb-2">
+          <i className="fa-solid fa-triangle-exclamation mr-1"></i>
+          {step.invalidChoices.length} invalid {step.invalidChoices.length === 1 ? 'pick' : 'picks'} re-prompted: {step.invalidChoices.map(c => `"${c}"`).join(', ')}
+        </div>
+      )}
+      {step.correctedFrom && (
+        <div className="text-[10px] text-slate-500 mb-2">
+          <i className="fa-solid fa-wand-magic-sparkles mr-1"></i>
+          Matched "{step.correctedFrom}" to "{step.selectedLink}"
+        </div>
+      )}
+      {step.fallbackFrom && (
+        <div className="text-[10px] text-amber-400 mb-2">
+          <i className="fa-solid fa-route mr-1"></i>
+          "{step.fallbackFrom}" failed to load; took runner-up "{step.selectedLink}"
+        </div>
+      )}
+      {step.violations?.map(v => (
+        <div key={v.kind} className="text-[10px] text-red-400 mb-2">
+          <i className="fa-solid fa-ban mr-1"></i>
+          Rule broken: {v.message}
+        </div>
+      ))}
+      <div className="bg-slate-800/50 border border-slate-700/50 rounded-lg p-2.5">
+         <p className="text-xs text-slate-400 italic leading-relaxed">
+          <i className="fa-solid fa-quote-left text-slate-600 mr-2"></i>
+          {step.thought}
+        </p>
+      </div>
+      {step.prefilter && (
+        <div className="mt-2 text-[10px] text-slate-500">
+          <i className="fa-solid fa-filter mr-1"></i>
+          Vector prefilter kept {step.prefilter.length} links
+          {prefilterRank > 0 && <> · pick ranked #{prefilterRank} ({step.prefilter[prefilterRank - 1].score.toFixed(2)})</>}
+          {' · top: '}
+          <span className="font-mono">{step.prefilter.slice(0, 3).map(c => `${c.link} ${c.score.toFixed(2)}`).join(', ')}</span>
+        </div>
+      )}
+      {runnersUp.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {runnersUp.map(c => (
+            <span key={c.link} className="text-[10px] font-mono bg-slate-800 text-slate-400 rounded px-1.5 py-0.5" title="Runner-up">
+              {c.link} <span className="text-slate-600">{c.score.toFixed(2)}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+// Namespaces whose pages are never valid moves. Article titles may contain colons
+// themselves ("Mission: Impossible"), so only these prefixes are excluded.
+const NON_ARTICLE_NAMESPACE = /^(?:Talk|User|Wikipedia|WP|File|Image|Media|MediaWiki|Template|Help|Category|Portal|Draft|Module|TimedText|Special)(?: talk)?:/i;
+
+// Article title an anchor in rendered action=parse HTML points to, or null for
+// anything that is not a plain article link (citations, files, external links...).
+export function linkTitleFromAnchor(anchor: HTMLAnchorElement): string | null {
+  const href = anchor.getAttribute('href') || '';
+  const match = href.match(/\/wiki\/([^#?]+)/);
+  if (!match) return null;
+
+  let title: string;
+  try {
+    title = decodeURIComponent(match[1]).replace(/_/g, ' ');
+  } catch {
+    return null; // Malformed % escape
+  }
+  if (NON_ARTICLE_NAMESPACE.test(title)) return null;
+  return anchor.getAttribute('title') || title;
+}
@@ -0,0 +1,22 @@
+import { normalizeTitle } from '../services/wikiService';
+
+// Mark the first anchor in `container` whose title or text matches `link` and
+// scroll it into view; clears the mark from every other anchor.
+export function highlightLink(container: HTMLElement, link: string): void {
+  const links = container.querySelectorAll('a');
+  let found = false;
+  links.forEach(a => {
+    const titleAttr = a.getAttribute('title');
+    const textContent = a.textContent?.trim();
+    const isMatch = (titleAttr && normalizeTitle(titleAttr) === normalizeTitle(link)) ||
+                    (textContent && normalizeTitle(textContent) === normalizeTitle(link));
+
+    if (isMatch && !found) {
+      a.classList.add('highlight-link');
+      a.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      found = true;
+    } else {
+      a.classList.remove('highlight-link');
+    }
+  });
+}
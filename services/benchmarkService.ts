@@ -0,0 +1,197 @@
+import { GameRules, GameStatus, MemoryStrategy, PromptTemplate, RunBudget, SolverType } from '../types';
+import { runGame, RunResult } from './gameRunner';
+import { BenchmarkPair, BenchmarkSuite, BenchmarkTier } from './benchmarkSuites';
+import { findShortestPath } from './oracleService';
+import { templateLabel } from './promptTemplates';
+
+const STORAGE_KEY = 'wikirunner.benchmarkReports';
+
+export interface BenchmarkConfig {
+  solver: SolverType;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string; // Solvers with a custom endpoint only
+  memory?: MemoryStrategy; // Conversational solvers only. Default: 'OFF'
+  promptTemplate?: PromptTemplate; // Prompt-template solvers only. Default: the built-in template
+}
+
+export interface BenchmarkRun extends RunResult {
+  configLabel: string;
+  tier: BenchmarkTier;
+  optimal?: number;
+}
+
+export interface BenchmarkReport {
+  id: string;
+  suiteVersion: string;
+  tiers: BenchmarkTier[];
+  maxSteps: number;
+  startedAt: number;
+  finishedAt: number;
+  runs: BenchmarkRun[];
+}
+
+export interface LeaderboardEntry {
+  configLabel: string;
+  runs: number;
+  successes: number;
+  successRate: number; // 0..1
+  meanPathLength: number | null; // Successful runs only
+  medianPathLength: number | null;
+  meanExcessOverOptimal: number | null; // Extra clicks vs. known optimal, successful runs only
+  meanSuccessTime: number | null; // ms of wall-clock time per successful run; the time-trial score
+  meanStepDuration: number | null; // ms per solver call, across all steps
+  invalidLinkRate: number | null; // Rejected link picks per step
+  totalWallTime: number; // ms
+  totalCost: number; // USD, priced models only
+}
+
+export const configLabel = (config: BenchmarkConfig) =>
+  [
+    config.solver,
+    config.model,
+    config.memory && config.memory !== 'OFF' ? `memory ${config.memory}` : undefined,
+    config.promptTemplate ? `prompt ${templateLabel(config.promptTemplate)}` : undefined
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+const median = (values: number[]) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export interface BenchmarkOptions {
+  tiers?: BenchmarkTier[];
+  maxSteps?: number;
+  budget?: RunBudget; // Per run
+  linkRetries?: number; // Corrective re-prompts after an invalid link. Default: 2
+  rules?: GameRules; // Rule variant for every run
+  computeOptimal?: boolean; // Fill in unknown optimal path lengths with the shortest-path oracle
+  onRun?: (run: BenchmarkRun, completed: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+// Runs every selected pair of the suite against every config, sequentially so
+// per-step durations are not skewed by concurrent requests.
+export async function runBenchmark(
+  suite: BenchmarkSuite,
+  configs: BenchmarkConfig[],
+  options: BenchmarkOptions = {}
+): Promise<BenchmarkReport> {
+  const tiers = options.tiers || ['easy', 'medium', 'hard'];
+  const maxSteps = options.maxSteps || 40;
+  const pairs: BenchmarkPair[] = suite.pairs.filter(p => tiers.includes(p.tier));
+  const total = pairs.length * configs.length;
+
+  const report: BenchmarkReport = {
+    id: `${suite.version}-${Date.now()}`,
+    suiteVersion: suite.version,
+    tiers,
+    maxSteps,
+    startedAt: Date.now(),
+    finishedAt: 0,
+    runs: []
+  };
+
+  // Optimal lengths are per pair, so look each one up once and share it across configs
+  const optimal = new Map<BenchmarkPair, number | undefined>(pairs.map(p => [p, p.optimal]));
+  if (options.computeOptimal) {
+    for (const pair of pairs) {
+      if (pair.optimal !== undefined || options.signal?.aborted) continue;
+      const result = await findShortestPath(pair.start, pair.target, { signal: options.signal }).catch(() => null);
+      // A path from an incomplete search may not be the shortest
+      optimal.set(pair, result && !result.limitReached ? result.clicks ?? undefined : undefined);
+    }
+  }
+
+  for (const config of configs) {
+    for (const pair of pairs) {
+      if (options.signal?.aborted) break;
+      const result = await runGame(
+        { startPage: pair.start, targetPage: pair.target, solver: config.solver, model: config.model, apiKey: config.apiKey, baseUrl: config.baseUrl, memory: config.memory, promptTemplate: config.promptTemplate, maxSteps, budget: options.budget, linkRetries: options.linkRetries, rules: options.rules },
+        { signal: options.signal }
+      );
+      const run: BenchmarkRun = { ...result, configLabel: configLabel(config), tier: pair.tier, optimal: optimal.get(pair) };
+      report.runs.push(run);
+      options.onRun?.(run, report.runs.length, total);
+    }
+  }
+
+  report.finishedAt = Date.now();
+  return report;
+}
+
+// True when the runs were played as a time trial, which is scored by wall-clock time.
+export const isTimeTrial = (runs: BenchmarkRun[]) => runs.length > 0 && runs.every(r => r.rules?.timeTrial);
+
+export function computeLeaderboard(runs: BenchmarkRun[]): LeaderboardEntry[] {
+  const byConfig = new Map<string, BenchmarkRun[]>();
+  runs.forEach(run => {
+    byConfig.set(run.configLabel, [...(byConfig.get(run.configLabel) || []), run]);
+  });
+
+  const entries = Array.from(byConfig.entries()).map(([label, configRuns]): LeaderboardEntry => {
+    const successful = configRuns.filter(r => r.outcome === GameStatus.SUCCESS);
+    const lengths = successful.map(r => r.steps);
+    const excess = successful.filter(r => r.optimal !== undefined).map(r => r.steps - r.optimal!);
+    const durations = configRuns.flatMap(r => r.history.map(h => h.duration));
+    const invalidPicks = configRuns.reduce((acc, r) => acc + r.history.reduce((n, h) => n + (h.invalidChoices?.length ?? 0), 0), 0);
+    return {
+      configLabel: label,
+      runs: configRuns.length,
+      successes: successful.length,
+      successRate: successful.length / configRuns.length,
+      meanPathLength: mean(lengths),
+      medianPathLength: median(lengths),
+      meanExcessOverOptimal: mean(excess),
+      meanSuccessTime: mean(successful.map(r => r.totalDuration)),
+      meanStepDuration: mean(durations),
+      invalidLinkRate: durations.length ? invalidPicks / durations.length : null,
+      totalWallTime: configRuns.reduce((acc, r) => acc + r.totalDuration, 0),
+      totalCost: configRuns.reduce((acc, r) => acc + (r.cost ?? 0), 0) // Reports from before cost tracking have none
+    };
+  });
+
+  // Best success rate first, then fastest mean time in a time trial, else shortest mean path
+  const score = isTimeTrial(runs)
+    ? (entry: LeaderboardEntry) => entry.meanSuccessTime ?? Infinity
+    : (entry: LeaderboardEntry) => entry.meanPathLength ?? Infinity;
+  return entries.sort((a, b) => b.successRate - a.successRate || score(a) - score(b));
+}
+
+// --- Persistence (browser) ---
+
+export function loadReports(): BenchmarkReport[] {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function saveReport(report: BenchmarkReport): BenchmarkReport[] {
+  const reports = [...loadReports().filter(r => r.id !== report.id), report];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(reports));
+  return reports;
+}
+
+export function deleteReport(id: string): BenchmarkReport[] {
+  const reports = loadReports().filter(r => r.id !== id);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(reports));
+  return reports;
+}
+
+export function parseReportJson(text: string): BenchmarkReport {
+  const data = JSON.parse(text);
+  if (!data || !Array.isArray(data.runs) || !data.suiteVersion) {
+    throw new Error('Invalid benchmark report.');
+  }
+  return data as BenchmarkReport;
+}
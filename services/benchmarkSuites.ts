@@ -0,0 +1,48 @@
+// Curated start/target pairs for solver benchmarks. Suites are versioned: once a
+// version is published its pairs never change, so results stay comparable.
+// Add a new version instead of editing an existing one.
+
+export type BenchmarkTier = 'easy' | 'medium' | 'hard';
+
+export interface BenchmarkPair {
+  start: string;
+  target: string;
+  tier: BenchmarkTier;
+  optimal?: number; // Known shortest path in clicks, when verified
+}
+
+export interface BenchmarkSuite {
+  version: string;
+  description: string;
+  pairs: BenchmarkPair[];
+}
+
+export const BENCHMARK_SUITES: BenchmarkSuite[] = [
+  {
+    version: 'v1',
+    description: 'Initial suite: 1-2 click warmups, common cross-domain hops, and obscure or abstract targets.',
+    pairs: [
+      { tier: 'easy', start: 'Cheese', target: 'Milk', optimal: 1 },
+      { tier: 'easy', start: 'Apollo 11', target: 'Moon', optimal: 1 },
+      { tier: 'easy', start: 'Paris', target: 'France', optimal: 1 },
+      { tier: 'easy', start: 'Dog', target: 'Wolf', optimal: 1 },
+      { tier: 'easy', start: 'Albert Einstein', target: 'Physics' },
+      { tier: 'medium', start: 'Apollo 11', target: 'Cheese' },
+      { tier: 'medium', start: 'Pizza', target: 'Roman Empire' },
+      { tier: 'medium', start: 'Jazz', target: 'Mathematics' },
+      { tier: 'medium', start: 'Volcano', target: 'Shakespeare' },
+      { tier: 'medium', start: 'Coffee', target: 'Industrial Revolution' },
+      { tier: 'hard', start: 'Lichen', target: 'Quantum mechanics' },
+      { tier: 'hard', start: 'Bagpipes', target: 'Photosynthesis' },
+      { tier: 'hard', start: 'Origami', target: 'Byzantine Empire' },
+      { tier: 'hard', start: 'Tardigrade', target: 'Baroque music' },
+      { tier: 'hard', start: 'Sumo', target: 'Plate tectonics' }
+    ]
+  }
+];
+
+export function getBenchmarkSuite(version: string): BenchmarkSuite {
+  const suite = BENCHMARK_SUITES.find(s => s.version === version);
+  if (!suite) throw new Error(`Unknown benchmark suite "${version}".`);
+  return suite;
+}
@@ -0,0 +1,75 @@
+import { ChatTurn, GameStep, MemoryStrategy, SolverConversation } from '../types';
+
+export const MEMORY_WINDOW = 4; // Exchanges replayed verbatim by WINDOW and SUMMARY
+const SUMMARY_REASON_CHARS = 160;
+
+export const MEMORY_STRATEGIES: { value: MemoryStrategy; label: string }[] = [
+  { value: 'OFF', label: 'Off (stateless prompts)' },
+  { value: 'FULL', label: 'Full conversation' },
+  { value: 'WINDOW', label: `Last ${MEMORY_WINDOW} moves` },
+  { value: 'SUMMARY', label: `Last ${MEMORY_WINDOW} moves + summary` }
+];
+
+export function parseMemory(value: string): MemoryStrategy {
+  const strategy = value.trim().toUpperCase() as MemoryStrategy;
+  if (!MEMORY_STRATEGIES.some(m => m.value === strategy)) throw new Error(`Unknown memory strategy "${value}".`);
+  return strategy;
+}
+
+// The assistant turn for an accepted step, in the JSON shape the prompts ask for.
+// It names the move actually made, which may differ from the model's literal pick
+// after a correction or a fallback to a runner-up.
+const stepReply = (step: GameStep) =>
+  JSON.stringify(step.action === 'BACK'
+    ? { reasoning: step.thought, action: 'BACK', backTo: step.backTo }
+    : { reasoning: step.thought, selectedLink: step.selectedLink });
+
+// Earlier prompts are replayed without their link lists, which would otherwise
+// dominate the context.
+const earlierPrompt = (page: string) =>
+  `Current Page: ${page}\n(Earlier move: the page summary and links are omitted.)`;
+
+// First sentence of a step's reasoning, for summaries.
+function reasoningDigest(step: GameStep): string {
+  const sentence = step.thought.replace(/\s+/g, ' ').trim().split(/(?<=[.!?])\s/)[0];
+  return sentence.length > SUMMARY_REASON_CHARS ? `${sentence.slice(0, SUMMARY_REASON_CHARS - 1)}…` : sentence;
+}
+
+function summarize(steps: GameStep[]): string {
+  const lines = steps.map((step, i) => {
+    const choice = step.action === 'BACK' ? `back to "${step.backTo}"` : `"${step.selectedLink}"`;
+    const reasoning = reasoningDigest(step);
+    return `${i + 1}. On "${step.pageTitle}" you chose ${choice}${reasoning ? `: ${reasoning}` : ''}`;
+  });
+  return `Summary of your earlier moves in this game:\n${lines.join('\n')}`;
+}
+
+// A run's conversation under `strategy`. OFF returns undefined so callers can
+// pass the result straight into a solver request.
+export function createConversation(strategy: MemoryStrategy | undefined): SolverConversation | undefined {
+  if (!strategy || strategy === 'OFF') return undefined;
+  const steps: GameStep[] = [];
+
+  return {
+    strategy,
+    messages(prompt: string): ChatTurn[] {
+      const recent = strategy === 'FULL' ? steps : steps.slice(-MEMORY_WINDOW);
+      const older = steps.slice(0, steps.length - recent.length);
+
+      const turns: ChatTurn[] = recent.flatMap(step => [
+        { role: 'user' as const, content: earlierPrompt(step.pageTitle) },
+        { role: 'assistant' as const, content: stepReply(step) }
+      ]);
+      turns.push({ role: 'user', content: prompt });
+
+      // Roles must alternate, so the summary rides on the first user turn
+      if (strategy === 'SUMMARY' && older.length) {
+        turns[0] = { role: 'user', content: `${summarize(older)}\n\n${turns[0].content}` };
+      }
+      return turns;
+    },
+    record(step: GameStep) {
+      steps.push(step);
+    }
+  };
+}
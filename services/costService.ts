@@ -0,0 +1,75 @@
+import { GameStep, RunBudget, TokenUsage } from '../types';
+
+export interface ModelPrice {
+  input: number; // USD per 1M input tokens
+  output: number; // USD per 1M output tokens
+}
+
+// List prices for the models offered in the settings panel. Models not listed
+// here (e.g. local LLMs) report tokens but no cost.
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  'gemini-2.0-flash-exp': { input: 0.10, output: 0.40 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+  'gemini-1.5-pro': { input: 1.25, output: 5.00 },
+  'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-5-mini': { input: 0.25, output: 2.00 },
+  'claude-sonnet-4-5-20250929': { input: 3.00, output: 15.00 },
+  'claude-sonnet-4-20250514': { input: 3.00, output: 15.00 },
+  'claude-haiku-4-5-20251001': { input: 1.00, output: 5.00 }
+};
+
+export function stepCost(model: string | undefined, usage: TokenUsage | undefined): number | undefined {
+  // Hybrid solver models are "<LLM solver id>:<model>"
+  const price = model ? MODEL_PRICING[model] ?? MODEL_PRICING[model.slice(model.indexOf(':') + 1)] : undefined;
+  if (!price || !usage) return undefined;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+export interface RunTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // USD, priced steps only
+}
+
+export function runTotals(history: GameStep[]): RunTotals {
+  return history.reduce<RunTotals>(
+    (totals, step) => ({
+      inputTokens: totals.inputTokens + (step.usage?.inputTokens ?? 0),
+      outputTokens: totals.outputTokens + (step.usage?.outputTokens ?? 0),
+      cost: totals.cost + (step.cost ?? 0)
+    }),
+    { inputTokens: 0, outputTokens: 0, cost: 0 }
+  );
+}
+
+// Totals plus usage no step carries, such as the rejected picks of a move that was never made.
+export function addUnrecordedUsage(totals: RunTotals, usage: TokenUsage | undefined, model: string | undefined): RunTotals {
+  if (!usage) return totals;
+  return {
+    inputTokens: totals.inputTokens + usage.inputTokens,
+    outputTokens: totals.outputTokens + usage.outputTokens,
+    cost: totals.cost + (stepCost(model, usage) ?? 0)
+  };
+}
+
+// Reason the run must stop, or null while it is within budget.
+export function budgetExceeded(budget: RunBudget, totals: RunTotals, elapsed: number): string | null {
+  const tokens = totals.inputTokens + totals.outputTokens;
+  if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+    return `Token budget exhausted: ${tokens.toLocaleString()} of ${budget.maxTokens.toLocaleString()} tokens used.`;
+  }
+  if (budget.maxCost !== undefined && totals.cost >= budget.maxCost) {
+    return `Cost budget exhausted: ${formatCost(totals.cost)} of ${formatCost(budget.maxCost)} spent.`;
+  }
+  if (budget.maxWallTime !== undefined && elapsed >= budget.maxWallTime) {
+    return `Time budget exhausted: ${(elapsed / 1000).toFixed(0)}s of ${(budget.maxWallTime / 1000).toFixed(0)}s elapsed.`;
+  }
+  return null;
+}
+
+export const formatCost = (usd: number) => `$${usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+export const formatTokens = (tokens: number) =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
@@ -0,0 +1,126 @@
+// Persistent cache of sentence embeddings, keyed by model name and text, so titles
+// seen in earlier steps or runs are never embedded twice.
+
+export interface EmbeddingStore {
+  getMany: (keys: string[]) => Promise<(Float32Array | undefined)[]>;
+  setMany: (entries: [string, Float32Array][]) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export interface EmbeddingCacheStats {
+  hits: number; // Texts answered from the cache
+  misses: number; // Texts that had to go through the model
+  hitRate: number; // hits / (hits + misses), 0 before the first lookup
+  avgMissLatency: number; // ms of inference per embedded text
+  estimatedSavedMs: number; // hits × avgMissLatency
+}
+
+export interface EmbeddingCache {
+  // Vectors for `texts` in order, calling `embed` only for the ones not cached yet
+  embed: (model: string, texts: string[], embed: (missing: string[]) => Promise<Float32Array[]>) => Promise<Float32Array[]>;
+  getStats: () => EmbeddingCacheStats;
+  clear: () => Promise<void>;
+}
+
+export const embeddingKey = (model: string, text: string) => `${model}|${text}`;
+
+export function createMemoryEmbeddingStore(): EmbeddingStore {
+  const entries = new Map<string, Float32Array>();
+  return {
+    getMany: async keys => keys.map(key => entries.get(key)),
+    setMany: async items => { items.forEach(([key, vector]) => entries.set(key, vector)); },
+    clear: async () => entries.clear()
+  };
+}
+
+// Browser store. Falls back to memory when IndexedDB is unavailable (e.g. private mode, Node).
+export function createIndexedDbEmbeddingStore(dbName = 'wikirunner-embeddings'): EmbeddingStore {
+  if (typeof indexedDB === 'undefined') return createMemoryEmbeddingStore();
+
+  const STORE = 'vectors';
+  const dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // One transaction per call: a page's worth of titles is read or written together
+  const transaction = async (mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest[]) => {
+    const db = await dbPromise;
+    return new Promise<unknown[]>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const requests = action(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(requests.map(r => r.result));
+      tx.onerror = () => reject(tx.error);
+    });
+  };
+
+  return {
+    getMany: async keys => (await transaction('readonly', store => keys.map(key => store.get(key)))) as (Float32Array | undefined)[],
+    setMany: async items => { await transaction('readwrite', store => items.map(([key, vector]) => store.put(vector, key))); },
+    clear: async () => { await transaction('readwrite', store => [store.clear()]); }
+  };
+}
+
+// Wraps a store with an in-memory layer and hit/miss accounting.
+export function createEmbeddingCache(store: EmbeddingStore): EmbeddingCache {
+  const memory = new Map<string, Float32Array>();
+  const stats = { hits: 0, misses: 0, missTime: 0 };
+
+  return {
+    async embed(model, texts, embed) {
+      const keys = texts.map(text => embeddingKey(model, text));
+      const vectors = keys.map(key => memory.get(key));
+
+      // Second tier: the persistent store, for whatever this session has not seen
+      const unseen = keys.filter((_, i) => !vectors[i]);
+      if (unseen.length) {
+        const stored = await store.getMany(unseen).catch(() => unseen.map(() => undefined));
+        const found = new Map(unseen.map((key, i) => [key, stored[i]]));
+        keys.forEach((key, i) => {
+          const vector = vectors[i] || found.get(key);
+          if (vector) {
+            vectors[i] = vector;
+            memory.set(key, vector);
+          }
+        });
+      }
+
+      // Duplicate texts in one call are embedded once
+      const missing = Array.from(new Set(texts.filter((_, i) => !vectors[i])));
+      stats.hits += texts.length - texts.filter((_, i) => !vectors[i]).length;
+      stats.misses += missing.length;
+
+      if (missing.length) {
+        const started = Date.now();
+        const embedded = await embed(missing);
+        stats.missTime += Date.now() - started;
+
+        const entries = missing.map((text, i): [string, Float32Array] => [embeddingKey(model, text), embedded[i]]);
+        entries.forEach(([key, vector]) => memory.set(key, vector));
+        keys.forEach((key, i) => { vectors[i] = vectors[i] || memory.get(key); });
+        // A failed write only costs a re-embed next session
+        await store.setMany(entries).catch(err => console.warn('Failed to persist embeddings', err));
+      }
+
+      return vectors as Float32Array[];
+    },
+    getStats: () => {
+      const lookups = stats.hits + stats.misses;
+      const avgMissLatency = stats.misses ? stats.missTime / stats.misses : 0;
+      return {
+        hits: stats.hits,
+        misses: stats.misses,
+        hitRate: lookups ? stats.hits / lookups : 0,
+        avgMissLatency,
+        estimatedSavedMs: stats.hits * avgMissLatency
+      };
+    },
+    clear: async () => {
+      memory.clear();
+      Object.assign(stats, { hits: 0, misses: 0, missTime: 0 });
+      await store.clear();
+    }
+  };
+}
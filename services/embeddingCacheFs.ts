@@ -0,0 +1,59 @@
+// Node-only embedding store: an append-only JSON lines file of base64 vectors,
+// read once on first use. Not imported by the browser app.
+import { appendFile, mkdir, readFile, rm } from 'fs/promises';
+import path from 'path';
+import { EmbeddingStore } from './embeddingCache';
+
+const encode = (vector: Float32Array) => Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+
+const decode = (base64: string) => {
+  const bytes = Buffer.from(base64, 'base64');
+  // Copy into an aligned buffer; Buffer's pool offset may not be a multiple of 4
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+};
+
+export function createFileEmbeddingStore(file: string): EmbeddingStore {
+  let entries: Promise<Map<string, Float32Array>> | null = null;
+  let writes: Promise<void> = Promise.resolve(); // Appends run one at a time so lines never interleave
+
+  const load = () => {
+    entries ??= readFile(file, 'utf8').then(
+      text => {
+        const map = new Map<string, Float32Array>();
+        for (const line of text.split('\n')) {
+          try {
+            const { key, vector } = JSON.parse(line);
+            map.set(key, decode(vector));
+          } catch {
+            // Blank or torn line from an interrupted run
+          }
+        }
+        return map;
+      },
+      () => new Map<string, Float32Array>()
+    );
+    return entries;
+  };
+
+  return {
+    async getMany(keys) {
+      const map = await load();
+      return keys.map(key => map.get(key));
+    },
+    async setMany(items) {
+      const map = await load();
+      items.forEach(([key, vector]) => map.set(key, vector));
+      const lines = items.map(([key, vector]) => JSON.stringify({ key, vector: encode(vector) }) + '\n').join('');
+      writes = writes.catch(() => undefined).then(async () => {
+        await mkdir(path.dirname(file), { recursive: true });
+        await appendFile(file, lines);
+      });
+      await writes;
+    },
+    async clear() {
+      await writes.catch(() => undefined);
+      entries = Promise.resolve(new Map());
+      await rm(file, { force: true });
+    }
+  };
+}
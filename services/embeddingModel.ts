@@ -0,0 +1,90 @@
+import { ModelLoadProgress } from '../types';
+
+// We use 'all-MiniLM-L6-v2' which is a distilled BERT model specifically trained
+// for sentence similarity. It is much more accurate than standard BERT or USE.
+export const MODEL_NAME = 'Xenova/all-MiniLM-L6-v2';
+
+const EMBED_BATCH = 200; // Texts per inference call, and how often a cancel is noticed
+
+// Runs the model somewhere: a Web Worker in the browser, this thread in Node.
+export interface Embedder {
+  load: (onProgress?: (progress: ModelLoadProgress) => void) => Promise<void>;
+  embed: (texts: string[]) => Promise<Float32Array[]>;
+  cancel: () => void; // Rejects every embed in progress
+}
+
+// transformers.js reports progress per file; fold it into one percentage over
+// every file seen so far.
+function downloadTracker(onProgress: (progress: ModelLoadProgress) => void) {
+  const files = new Map<string, { loaded: number; total: number }>();
+  return (event: { status: string; file?: string; loaded?: number; total?: number }) => {
+    if (event.status !== 'progress' || !event.file || !event.total) return;
+    files.set(event.file, { loaded: event.loaded ?? 0, total: event.total });
+    let loaded = 0;
+    let total = 0;
+    files.forEach(f => { loaded += f.loaded; total += f.total; });
+    onProgress({ status: 'loading', progress: Math.min(99, Math.round((loaded / total) * 100)), file: event.file });
+  };
+}
+
+export async function createExtractor(onProgress: (progress: ModelLoadProgress) => void = () => {}): Promise<any> {
+  onProgress({ status: 'loading', progress: 0 });
+  try {
+    // Imported lazily so LLM-only callers (e.g. the batch CLI) never load the
+    // transformers runtime and its native dependencies.
+    const { pipeline, env } = await import('@xenova/transformers');
+
+    // Force remote models to avoid 404s on local server
+    env.allowLocalModels = false;
+    env.useBrowserCache = false;
+
+    // Feature extraction pipeline with mean pooling and normalization
+    // acts as a sentence embedding generator.
+    const extractor = await pipeline('feature-extraction', MODEL_NAME, { progress_callback: downloadTracker(onProgress) });
+    onProgress({ status: 'ready', progress: 100 });
+    return extractor;
+  } catch (e: any) {
+    console.error("Failed to load vector model", e);
+    onProgress({ status: 'error', progress: 0, error: e?.message || String(e) });
+    throw e;
+  }
+}
+
+// Embeds `texts` in batches, checking `isCancelled` before each one.
+export async function embedTexts(extractor: any, texts: string[], isCancelled: () => boolean = () => false): Promise<Float32Array[]> {
+  const vectors: Float32Array[] = [];
+  for (let start = 0; start < texts.length; start += EMBED_BATCH) {
+    if (isCancelled()) throw new Error('Embedding cancelled.');
+    // We use pooling: 'mean' and normalize: true to get a single ready-to-use vector
+    const output = await extractor(texts.slice(start, start + EMBED_BATCH), { pooling: 'mean', normalize: true });
+    const hiddenSize = output.dims[1]; // 384 for MiniLM
+    const data = output.data as Float32Array;
+    for (let offset = 0; offset < data.length; offset += hiddenSize) {
+      vectors.push(data.slice(offset, offset + hiddenSize));
+    }
+  }
+  return vectors;
+}
+
+// Node has no Web Worker global; the CLI runs the model on its own thread.
+export function createInProcessEmbedder(): Embedder {
+  let extractor: Promise<any> | null = null;
+  let generation = 0; // Bumped by cancel; embeds started earlier stop at their next batch
+
+  const load = (onProgress?: (progress: ModelLoadProgress) => void) => {
+    extractor ??= createExtractor(onProgress).catch(e => {
+      extractor = null; // Let the next call retry
+      throw e;
+    });
+    return extractor;
+  };
+
+  return {
+    load: async onProgress => { await load(onProgress); },
+    embed: async texts => {
+      const started = generation;
+      return embedTexts(await load(), texts, () => generation !== started);
+    },
+    cancel: () => { generation++; }
+  };
+}
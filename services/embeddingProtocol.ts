@@ -0,0 +1,13 @@
+import { ModelLoadProgress } from '../types';
+
+// Messages between the app and services/embeddingWorker.ts.
+
+export type EmbeddingWorkerRequest =
+  | { type: 'load' }
+  | { type: 'embed'; id: number; texts: string[] }
+  | { type: 'cancel'; id: number };
+
+export type EmbeddingWorkerResponse =
+  | { type: 'progress'; progress: ModelLoadProgress } // Also sent once the model is ready or failed
+  | { type: 'embedded'; id: number; vectors: Float32Array[] }
+  | { type: 'error'; id: number; message: string }; // A failed or cancelled embed
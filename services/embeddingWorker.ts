@@ -0,0 +1,46 @@
+/// <reference lib="webworker" />
+// Web Worker that owns the transformers.js pipeline so inference never blocks the UI.
+// Started by services/embeddingWorkerClient.ts.
+import { createExtractor, embedTexts } from './embeddingModel';
+import { EmbeddingWorkerRequest, EmbeddingWorkerResponse } from './embeddingProtocol';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+const post = (message: EmbeddingWorkerResponse, transfer: Transferable[] = []) =>
+  self.postMessage(message, transfer);
+
+let extractor: Promise<any> | null = null;
+const cancelled = new Set<number>();
+let queue: Promise<void> = Promise.resolve(); // Embeds run one at a time, in order
+
+const load = () => {
+  extractor ??= createExtractor(progress => post({ type: 'progress', progress })).catch(e => {
+    extractor = null; // Let the next request retry
+    throw e;
+  });
+  return extractor;
+};
+
+self.onmessage = (event: MessageEvent<EmbeddingWorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'load':
+      load().catch(() => {}); // Failure is reported as a progress message
+      break;
+    case 'cancel':
+      cancelled.add(request.id);
+      break;
+    case 'embed':
+      queue = queue.then(async () => {
+        try {
+          const vectors = await embedTexts(await load(), request.texts, () => cancelled.has(request.id));
+          post({ type: 'embedded', id: request.id, vectors }, vectors.map(v => v.buffer));
+        } catch (e: any) {
+          post({ type: 'error', id: request.id, message: e?.message || String(e) });
+        } finally {
+          cancelled.delete(request.id);
+        }
+      });
+      break;
+  }
+};
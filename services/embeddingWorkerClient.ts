@@ -0,0 +1,90 @@
+import { ModelLoadProgress } from '../types';
+import { Embedder } from './embeddingModel';
+import { EmbeddingWorkerRequest, EmbeddingWorkerResponse } from './embeddingProtocol';
+
+interface PendingEmbed {
+  resolve: (vectors: Float32Array[]) => void;
+  reject: (error: Error) => void;
+}
+
+// Browser embedder: the model lives in a dedicated worker, started on first use.
+export function createWorkerEmbedder(): Embedder {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  const pending = new Map<number, PendingEmbed>();
+  const progressListeners = new Set<(progress: ModelLoadProgress) => void>();
+  let loaded: Promise<void> | null = null;
+  let lastProgress: ModelLoadProgress | null = null;
+
+  const send = (request: EmbeddingWorkerRequest) => getWorker().postMessage(request);
+
+  const getWorker = () => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./embeddingWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<EmbeddingWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        lastProgress = message.progress;
+        progressListeners.forEach(listener => listener(message.progress));
+        return;
+      }
+      const job = pending.get(message.id);
+      if (!job) return;
+      pending.delete(message.id);
+      if (message.type === 'embedded') job.resolve(message.vectors);
+      else job.reject(new Error(message.message));
+    };
+    worker.onerror = event => {
+      // The worker script itself failed; nothing in flight can finish
+      const error = new Error(`Vector worker failed: ${event.message || 'unknown error'}`);
+      pending.forEach(job => job.reject(error));
+      pending.clear();
+      lastProgress = { status: 'error', progress: 0, error: error.message };
+      progressListeners.forEach(listener => listener(lastProgress!));
+    };
+    return worker;
+  };
+
+  const load = (onProgress?: (progress: ModelLoadProgress) => void) => {
+    loaded ??= new Promise<void>((resolve, reject) => {
+      lastProgress = null;
+      const settle = (progress: ModelLoadProgress) => {
+        if (progress.status === 'loading') return;
+        progressListeners.delete(settle);
+        if (progress.status === 'ready') {
+          resolve();
+        } else {
+          loaded = null; // Let the next call retry
+          reject(new Error(progress.error || 'Failed to load vector model'));
+        }
+      };
+      progressListeners.add(settle);
+      send({ type: 'load' });
+    });
+    if (onProgress) {
+      progressListeners.add(onProgress);
+      if (lastProgress) onProgress(lastProgress);
+    }
+    const done = () => { if (onProgress) progressListeners.delete(onProgress); };
+    return loaded.finally(done);
+  };
+
+  return {
+    load,
+    embed: async texts => {
+      await load();
+      const id = nextId++;
+      return new Promise<Float32Array[]>((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        send({ type: 'embed', id, texts });
+      });
+    },
+    cancel: () => {
+      pending.forEach((job, id) => {
+        send({ type: 'cancel', id });
+        job.reject(new Error('Embedding cancelled.'));
+      });
+      pending.clear();
+    }
+  };
+}
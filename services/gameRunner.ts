@@ -0,0 +1,288 @@
+import { AIResponse, BacktrackRule, GameRules, GameStatus, MemoryStrategy, GameStep, LinkCandidate, MoveAction, PromptTemplate, RunBudget, SolverType, TokenUsage, WikiPage } from '../types';
+import * as wikiService from './wikiService';
+import { normalizeTitle } from './wikiService';
+import { pickPrefetchCandidates } from './pageCache';
+import { getSolver } from './solverRegistry';
+import { addUnrecordedUsage, budgetExceeded, runTotals, stepCost } from './costService';
+import { getValidatedMove, matchLink } from './linkValidation';
+import { measureProgress } from './progressService';
+import { checkMove, remainingWaypoints, rulesForSolver } from './rulesService';
+import { createConversation } from './conversationService';
+import { DEFAULT_PROMPT_TEMPLATE } from './promptTemplates';
+
+export const BACKTRACK_COST: Record<BacktrackRule, number> = { OFF: 0, FREE: 0, COUNTED: 1, PENALTY: 2 };
+
+// Pages the player can go back to, oldest first, rebuilt from the step history.
+export function navigationStack(history: GameStep[]): string[] {
+  const stack: string[] = [];
+  for (const step of history) {
+    if (step.action === 'BACK') {
+      const index = step.backTo ? stack.lastIndexOf(step.backTo) : -1;
+      stack.length = index >= 0 ? index : Math.max(0, stack.length - 1);
+    } else {
+      stack.push(step.pageTitle);
+    }
+  }
+  return stack;
+}
+
+// Where a move leads: the clicked link, or the stack page a back move returns to.
+// Back moves are ignored when the rule forbids them or there is nowhere to go back to.
+export function resolveMove(
+  move: AIResponse,
+  stack: string[],
+  rule: BacktrackRule
+): { action: MoveAction; destination: string } {
+  if (move.action === 'BACK' && rule !== 'OFF' && stack.length > 0) {
+    const wanted = move.backTo ? normalizeTitle(move.backTo) : null;
+    let index = stack.length - 1;
+    if (wanted) {
+      const match = stack.map(normalizeTitle).lastIndexOf(wanted);
+      if (match >= 0) index = match;
+    }
+    return { action: 'BACK', destination: stack[index] };
+  }
+  return { action: 'LINK', destination: move.selectedLink };
+}
+
+// Load the page a move leads to. When a clicked link fails to load, fall back to
+// the solver's runners-up that are on the page, in rank order.
+export async function fetchMoveDestination(
+  destination: string,
+  currentPage: WikiPage,
+  candidates: LinkCandidate[] = []
+): Promise<{ page: WikiPage; link: string }> {
+  try {
+    return { page: await wikiService.fetchPageData(destination), link: destination };
+  } catch (err) {
+    for (const candidate of candidates) {
+      if (normalizeTitle(candidate.link) === normalizeTitle(destination)) continue;
+      const match = await matchLink(candidate.link, currentPage);
+      if (!match) continue;
+      try {
+        return { page: await wikiService.fetchPageData(match.link), link: match.link };
+      } catch {
+        // Try the next runner-up
+      }
+    }
+    throw err;
+  }
+}
+
+// Clicks charged for a run: one per link, plus the rule's cost per back move.
+export function scoreRun(history: GameStep[], rule: BacktrackRule): number {
+  return history.reduce((acc, step) => acc + (step.action === 'BACK' ? BACKTRACK_COST[rule] : 1), 0);
+}
+
+export interface RunConfig {
+  startPage: string;
+  targetPage: string;
+  solver: SolverType;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible server for solvers with a custom endpoint
+  maxSteps: number;
+  backtrackRule?: BacktrackRule; // Default: 'OFF'
+  prefetch?: number; // Likely next pages to warm in the page cache while the solver thinks. Default: 0
+  budget?: RunBudget; // Default: unlimited
+  linkRetries?: number; // Corrective re-prompts after a pick that is not on the page. Default: 2
+  measureProgress?: boolean; // Record distance-to-target telemetry on every step (uses the vector model). Default: false
+  rules?: GameRules; // Rule variant; default: the classic game
+  targetLanguage?: string; // Edition targetPage is given in, when not the page source's; resolved through interlanguage links
+  memory?: MemoryStrategy; // Conversation memory, for conversational solvers. Default: 'OFF'
+  promptTemplate?: PromptTemplate; // For solvers that build prompts from templates. Default: the built-in template
+}
+
+export interface RunResult {
+  startPage: string;
+  targetPage: string; // On the played edition
+  requestedTarget?: string; // Target as given, when it was a redirect or on another edition
+  language: string; // Edition played on
+  targetLanguage?: string;
+  solver: SolverType;
+  model?: string;
+  baseUrl?: string;
+  maxSteps: number;
+  backtrackRule: BacktrackRule;
+  rules?: GameRules;
+  memory: MemoryStrategy;
+  promptTemplate?: PromptTemplate; // Template the solver's prompts were built from; prompt-template solvers only
+  outcome: GameStatus.SUCCESS | GameStatus.FAILED;
+  failureReason?: string;
+  history: GameStep[];
+  path: string[]; // Every page visited, including the start and the final page
+  steps: number;
+  score: number; // Clicks charged under the backtrack rule
+  usage: TokenUsage; // Totals across all steps
+  cost: number; // USD, steps with a known model price only
+  invalidLinks: number; // Rejected link picks across all steps
+  startedAt: number;
+  finishedAt: number;
+  totalDuration: number; // Wall-clock ms for the whole run
+}
+
+export interface RunCallbacks {
+  onPage?: (page: WikiPage) => void;
+  // May return a promise to hold the run (e.g. to animate the chosen link) before the next page loads
+  // selectedLink is null for back moves
+  onStep?: (step: GameStep, selectedLink: string | null) => void | Promise<void>;
+  signal?: AbortSignal;
+}
+
+// Headless version of the App.tsx game loop: same solver calls, same page
+// fetching, same success/failure rules, but no React state or visual delays.
+export async function runGame(config: RunConfig, callbacks: RunCallbacks = {}): Promise<RunResult> {
+  const { startPage, maxSteps } = config;
+  const backtrackRule = config.backtrackRule || 'OFF';
+  const solver = getSolver(config.solver);
+  const language = wikiService.getLanguage();
+  const crossLanguage = !!config.targetLanguage && config.targetLanguage !== language;
+  let targetPage = config.targetPage;
+  const conversation = solver.capabilities.conversational ? createConversation(config.memory) : undefined;
+  const promptTemplate = solver.capabilities.promptTemplate ? config.promptTemplate || DEFAULT_PROMPT_TEMPLATE : undefined;
+
+  const history: GameStep[] = [];
+  const path: string[] = [];
+  const startedAt = Date.now();
+  let unrecordedUsage: TokenUsage | undefined; // Spent on a move that failed validation
+
+  const finish = (outcome: RunResult['outcome'], failureReason?: string): RunResult => {
+    const finishedAt = Date.now();
+    const totals = addUnrecordedUsage(runTotals(history), unrecordedUsage, config.model);
+    return {
+      startPage,
+      targetPage,
+      requestedTarget: targetPage !== config.targetPage ? config.targetPage : undefined,
+      language,
+      targetLanguage: crossLanguage ? config.targetLanguage : undefined,
+      solver: config.solver,
+      model: config.model,
+      baseUrl: config.baseUrl,
+      maxSteps,
+      backtrackRule,
+      rules: config.rules,
+      memory: conversation?.strategy ?? 'OFF',
+      promptTemplate,
+      outcome,
+      failureReason,
+      history,
+      path,
+      steps: history.length,
+      score: scoreRun(history, backtrackRule),
+      usage: { inputTokens: totals.inputTokens, outputTokens: totals.outputTokens },
+      cost: totals.cost,
+      invalidLinks: history.reduce((acc, h) => acc + (h.invalidChoices?.length ?? 0), 0),
+      startedAt,
+      finishedAt,
+      totalDuration: finishedAt - startedAt
+    };
+  };
+
+  if (solver.capabilities.interactive) {
+    return finish(GameStatus.FAILED, `The ${solver.label} solver is interactive and cannot run headless.`);
+  }
+
+  let currentPage: WikiPage;
+  try {
+    if (crossLanguage) targetPage = await wikiService.resolveTargetTitle(config.targetPage, config.targetLanguage!);
+    // A redirect target would never match the title of the article actually loaded
+    targetPage = await wikiService.resolveRedirect(targetPage);
+    currentPage = await wikiService.fetchPageData(startPage);
+  } catch (err: any) {
+    return finish(GameStatus.FAILED, `Failed to start: ${err.message}`);
+  }
+  path.push(currentPage.title);
+  callbacks.onPage?.(currentPage);
+  const targetNorm = normalizeTitle(targetPage);
+
+  try {
+    while (true) {
+      if (callbacks.signal?.aborted) {
+        return finish(GameStatus.FAILED, 'Run aborted.');
+      }
+
+      // With waypoints, the target only counts once they have all been visited
+      if (normalizeTitle(currentPage.title) === targetNorm && !remainingWaypoints(config.rules, path).length) {
+        return finish(GameStatus.SUCCESS);
+      }
+
+      if (history.length >= maxSteps) {
+        return finish(GameStatus.FAILED, 'Maximum attempts reached without finding the target.');
+      }
+
+      const overBudget = config.budget && budgetExceeded(config.budget, runTotals(history), Date.now() - startedAt);
+      if (overBudget) {
+        return finish(GameStatus.FAILED, overBudget);
+      }
+
+      if (config.prefetch) {
+        wikiService.prefetchPages(pickPrefetchCandidates(currentPage, targetPage, config.prefetch));
+      }
+
+      // Measured alongside the solver call so it adds no time to the step
+      const progress = config.measureProgress ? measureProgress(currentPage, targetPage) : undefined;
+
+      const stack = navigationStack(history);
+      const startTime = performance.now();
+      const { move, invalidChoices, correctedFrom } = await getValidatedMove(solver, {
+        currentPage,
+        targetPage,
+        history: history.map(h => h.pageTitle),
+        apiKey: config.apiKey,
+        model: config.model,
+        baseUrl: config.baseUrl,
+        backStack: backtrackRule !== 'OFF' ? stack : undefined,
+        rules: rulesForSolver(config.rules, path),
+        language,
+        conversation,
+        promptTemplate: promptTemplate?.body
+      }, config.linkRetries);
+      const duration = performance.now() - startTime;
+      const { action, destination } = resolveMove(move, stack, backtrackRule);
+      const { page: nextPage, link } = await fetchMoveDestination(
+        destination,
+        currentPage,
+        action === 'LINK' ? move.candidates : undefined
+      );
+
+      const step: GameStep = {
+        pageTitle: currentPage.title,
+        thought: move.reasoning,
+        timestamp: Date.now(),
+        duration,
+        solver: config.solver,
+        action,
+        selectedLink: action === 'LINK' ? link : undefined,
+        backTo: action === 'BACK' ? destination : undefined,
+        usage: move.usage,
+        cost: stepCost(config.model, move.usage),
+        invalidChoices: invalidChoices.length ? invalidChoices : undefined,
+        correctedFrom,
+        candidates: move.candidates,
+        prefilter: move.prefilter,
+        fallbackFrom: link !== destination ? destination : undefined,
+        progress: await progress
+      };
+      const violations = checkMove(config.rules, currentPage, action === 'LINK' ? link : null, nextPage);
+      if (violations.length) step.violations = violations;
+      history.push(step);
+      conversation?.record(step);
+      await callbacks.onStep?.(step, action === 'LINK' ? link : null);
+
+      currentPage = nextPage;
+      path.push(currentPage.title);
+      callbacks.onPage?.(currentPage);
+
+      if (violations.length) {
+        return finish(GameStatus.FAILED, `Rule broken at step ${history.length}: ${violations[0].message}`);
+      }
+      // The loaded page, not the link: a link through a redirect lands on the target article
+      if (normalizeTitle(currentPage.title) === targetNorm && !remainingWaypoints(config.rules, path).length) {
+        return finish(GameStatus.SUCCESS);
+      }
+    }
+  } catch (err: any) {
+    unrecordedUsage = err.usage;
+    return finish(GameStatus.FAILED, `Solver Error: ${err.message}`);
+  }
+}
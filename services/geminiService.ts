@@ -1,44 +1,35 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { AIResponse, WikiPage } from "../types";
+import { AIResponse, GameRules, SolverConversation, WikiPage } from "../types";
+import { buildMovePrompt, toAIResponse } from "./promptUtils";
 
 export async function getNextMove(
   currentPage: WikiPage,
   targetPage: string,
   history: string[],
   apiKey?: string,
-  modelName?: string
+  modelName?: string,
+  backStack?: string[],
+  invalidChoices?: string[],
+  rules?: GameRules,
+  language?: string,
+  conversation?: SolverConversation,
+  promptTemplate?: string
 ): Promise<AIResponse> {
   const key = apiKey || process.env.API_KEY || '';
   if (!key) throw new Error("API Key is missing. Please provide it in the settings.");
 
   const ai = new GoogleGenAI({ apiKey: key });
   
-  const prompt = `
-    You are an expert Wikipedia Speedrunner AI.
-    Your goal is to reach the target page by clicking links from the current page.
-    
-    CRITICAL RULES:
-    1. You CANNOT go back. You must always move forward.
-    2. Choose the link that is semantically closest or most likely to lead to the target.
-    3. If the target page title is in the list of links, you MUST select it.
-    
-    Current Page: ${currentPage.title}
-    Target Page: ${targetPage}
-    
-    Current Page Summary: ${currentPage.summary}
-    
-    Available Links (${currentPage.links.length} total):
-    ${currentPage.links.slice(0, 200).join(", ")}
-    
-    Path taken so far: ${history.join(" -> ")}
-    
-    Analyze the target and the current page's links. Explain your reasoning and then provide the exact name of the link you want to click.
-  `;
+  // The reply format comes from the response schema below
+  const prompt = buildMovePrompt({ currentPage, targetPage, history, backStack, invalidChoices, rules, language }, '', promptTemplate);
 
   const response = await ai.models.generateContent({
     model: modelName || 'gemini-2.0-flash-exp',
-    contents: prompt,
+    // Gemini calls the assistant role "model"
+    contents: conversation
+      ? conversation.messages(prompt).map(turn => ({ role: turn.role === 'assistant' ? 'model' : 'user', parts: [{ text: turn.content }] }))
+      : prompt,
     config: {
       responseMimeType: "application/json",
       responseSchema: {
@@ -51,6 +42,27 @@ export async function getNextMove(
           selectedLink: {
             type: Type.STRING,
             description: "The exact title of the link to click next."
+          },
+          candidates: {
+            type: Type.ARRAY,
+            description: "Top links ranked best first; the first must be selectedLink.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                link: { type: Type.STRING, description: "Exact link title." },
+                confidence: { type: Type.NUMBER, description: "Confidence from 0 to 1 that this link is the best move." }
+              },
+              required: ["link", "confidence"]
+            }
+          },
+          action: {
+            type: Type.STRING,
+            enum: ["LINK", "BACK"],
+            description: "LINK to click selectedLink, BACK to return to a page on the navigation stack."
+          },
+          backTo: {
+            type: Type.STRING,
+            description: "When action is BACK, the exact title of the page to go back to."
           }
         },
         required: ["reasoning", "selectedLink"]
@@ -58,17 +70,19 @@ export async function getNextMove(
     }
   });
 
+  const usage = {
+    inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+    outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0
+  };
   try {
     const data = JSON.parse(response.text || '{}');
-    return {
-      reasoning: data.reasoning || "No reasoning provided.",
-      selectedLink: data.selectedLink || currentPage.links[0]
-    };
+    return { ...toAIResponse(data), usage };
   } catch (e) {
     console.error("Failed to parse AI response", e);
     return {
-      reasoning: "Failed to parse AI response. Picking first link.",
-      selectedLink: currentPage.links[0]
+      reasoning: "Failed to parse AI response.",
+      selectedLink: '',
+      usage
     };
   }
 }
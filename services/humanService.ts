@@ -0,0 +1,34 @@
+import { AIResponse, WikiPage } from "../types";
+import { normalizeTitle } from "./wikiService";
+
+// The human "solver": getNextMove waits until the player clicks a link in the
+// article pane, which the UI reports through submitMove.
+
+let pending: { page: WikiPage; resolve: (move: AIResponse) => void } | null = null;
+
+export function getNextMove(currentPage: WikiPage): Promise<AIResponse> {
+  return new Promise(resolve => {
+    pending = { page: currentPage, resolve };
+  });
+}
+
+export function isAwaitingMove(): boolean {
+  return pending !== null;
+}
+
+// Returns false when no move is awaited or the link is not an article link on the current page.
+export function submitMove(link: string): boolean {
+  if (!pending) return false;
+  const match = pending.page.links.find(l => normalizeTitle(l) === normalizeTitle(link));
+  if (!match) return false;
+
+  const { resolve } = pending;
+  pending = null;
+  resolve({ selectedLink: match, reasoning: `Clicked "${match}".` });
+  return true;
+}
+
+// Drop a move that will never be made (game reset). The waiting promise is abandoned.
+export function cancelPendingMove(): void {
+  pending = null;
+}
@@ -0,0 +1,73 @@
+import { AIResponse, GameRules, LinkCandidate, SolverConversation, WikiPage } from "../types";
+import * as geminiService from './geminiService';
+import * as openaiService from './openaiService';
+import * as claudeService from './claudeService';
+import { rankLinks } from './vectorService';
+import { normalizeTitle } from './wikiService';
+import { allowedLinks, currentGoal } from './rulesService';
+
+// Embedding prefilter + LLM selection: every link on the page is ranked by
+// similarity to the target, and only the top K are shown to the LLM.
+
+export const HYBRID_TOP_K = 40;
+
+export const HYBRID_LLMS = {
+  GEMINI: geminiService.getNextMove,
+  OPENAI: openaiService.getNextMove,
+  CLAUDE: claudeService.getNextMove
+};
+
+export type HybridLlm = keyof typeof HYBRID_LLMS;
+
+// Hybrid model values are "<LLM solver id>:<model>", e.g. "OPENAI:gpt-4o-mini".
+export function parseHybridModel(value: string): { llm: HybridLlm; model: string } {
+  const separator = value.indexOf(':');
+  const llm = value.slice(0, separator) as HybridLlm;
+  if (separator < 0 || !(llm in HYBRID_LLMS)) {
+    throw new Error(`Invalid hybrid model "${value}". Expected one of ${Object.keys(HYBRID_LLMS).join(', ')} followed by ":<model>".`);
+  }
+  return { llm, model: value.slice(separator + 1) };
+}
+
+export async function getNextMove(
+  currentPage: WikiPage,
+  targetPage: string,
+  history: string[],
+  hybridModel: string,
+  apiKey?: string,
+  backStack?: string[],
+  invalidChoices?: string[],
+  rules?: GameRules,
+  language?: string,
+  conversation?: SolverConversation,
+  promptTemplate?: string
+): Promise<AIResponse> {
+  const { llm, model } = parseHybridModel(hybridModel);
+
+  // Links the rules forbid never reach the LLM; with waypoints, rank towards the next one
+  const goal = currentGoal(targetPage, rules);
+  const links = allowedLinks(currentPage, Array.from(new Set(currentPage.links)), rules);
+  const ranked = await rankLinks(links, goal);
+  const prefilter: LinkCandidate[] = ranked.slice(0, HYBRID_TOP_K);
+
+  // Embeddings can underrate an exact title match; never hide the target itself
+  const targetNorm = normalizeTitle(goal);
+  const target = ranked.find(c => normalizeTitle(c.link) === targetNorm);
+  if (target && !prefilter.includes(target)) prefilter.unshift(target);
+
+  const move = await HYBRID_LLMS[llm](
+    { ...currentPage, links: prefilter.map(c => c.link) },
+    targetPage,
+    history,
+    apiKey,
+    model,
+    backStack,
+    invalidChoices,
+    rules,
+    language,
+    conversation,
+    promptTemplate
+  );
+
+  return { ...move, prefilter };
+}
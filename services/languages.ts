@@ -0,0 +1,65 @@
+// Wikipedia editions the UI and CLI offer. Any edition code works with the live
+// page source; these are the ones with a localized prompt note.
+
+export interface WikiLanguage {
+  code: string; // Subdomain, e.g. "de" for de.wikipedia.org
+  name: string; // English name, used in the English part of prompts
+  nativeName: string;
+  promptNote: string; // Told to solvers in the wiki's own language
+}
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export const WIKI_LANGUAGES: WikiLanguage[] = [
+  { code: 'en', name: 'English', nativeName: 'English', promptNote: '' },
+  {
+    code: 'de', name: 'German', nativeName: 'Deutsch',
+    promptNote: 'Du spielst in der deutschsprachigen Wikipedia. Alle Seitentitel und Links sind auf Deutsch; gib den gewählten Link genau so an, wie er in der Liste steht.'
+  },
+  {
+    code: 'fr', name: 'French', nativeName: 'Français',
+    promptNote: 'Tu joues sur la Wikipédia en français. Tous les titres et liens sont en français ; recopie le lien choisi exactement comme il apparaît dans la liste.'
+  },
+  {
+    code: 'es', name: 'Spanish', nativeName: 'Español',
+    promptNote: 'Estás jugando en la Wikipedia en español. Todos los títulos y enlaces están en español; copia el enlace elegido exactamente como aparece en la lista.'
+  },
+  {
+    code: 'it', name: 'Italian', nativeName: 'Italiano',
+    promptNote: 'Stai giocando sulla Wikipedia in italiano. Tutti i titoli e i link sono in italiano; copia il link scelto esattamente come appare nell\'elenco.'
+  },
+  {
+    code: 'pt', name: 'Portuguese', nativeName: 'Português',
+    promptNote: 'Você está jogando na Wikipédia em português. Todos os títulos e links estão em português; copie o link escolhido exatamente como aparece na lista.'
+  },
+  {
+    code: 'nl', name: 'Dutch', nativeName: 'Nederlands',
+    promptNote: 'Je speelt op de Nederlandstalige Wikipedia. Alle titels en links zijn in het Nederlands; neem de gekozen link precies over zoals die in de lijst staat.'
+  },
+  {
+    code: 'pl', name: 'Polish', nativeName: 'Polski',
+    promptNote: 'Grasz w polskojęzycznej Wikipedii. Wszystkie tytuły i linki są po polsku; przepisz wybrany link dokładnie tak, jak widnieje na liście.'
+  },
+  {
+    code: 'ru', name: 'Russian', nativeName: 'Русский',
+    promptNote: 'Ты играешь в русской Википедии. Все названия страниц и ссылки на русском языке; указывай выбранную ссылку точно так, как она написана в списке.'
+  },
+  {
+    code: 'ja', name: 'Japanese', nativeName: '日本語',
+    promptNote: 'これは日本語版ウィキペディアでのゲームです。ページ名とリンクはすべて日本語です。選んだリンクは一覧に書かれているとおり正確に答えてください。'
+  },
+  {
+    code: 'zh', name: 'Chinese', nativeName: '中文',
+    promptNote: '你正在中文维基百科上游戏。所有页面标题和链接都是中文；请严格按照列表中的写法给出所选链接。'
+  }
+];
+
+export const findLanguage = (code: string | undefined) =>
+  WIKI_LANGUAGES.find(l => l.code === (code || DEFAULT_LANGUAGE));
+
+// Edition codes are short lowercase subdomains ("en", "simple", "zh-yue").
+export function validateLanguage(code: string): string {
+  const normalized = code.trim().toLowerCase();
+  if (!/^[a-z][a-z-]{1,11}$/.test(normalized)) throw new Error(`Invalid Wikipedia language code "${code}".`);
+  return normalized;
+}
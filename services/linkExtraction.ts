@@ -0,0 +1,173 @@
+import { LinkRegion, PageLink } from '../types';
+import { normalizeTitle } from './wikiService';
+
+// Where each article link sits in action=parse HTML. A small tag scanner rather
+// than DOMParser so the same code runs in the browser and in the Node CLI.
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const SKIP_TAGS = new Set(['style', 'script']); // Text inside is never shown
+// Chrome around the prose: edit links, citation markers, hidden spans
+const SKIP_CLASSES = /\b(mw-editsection|reference|mw-cite-backlink|noprint)\b/;
+const BLOCK_TAGS = new Set(['p', 'li', 'td', 'th', 'dd', 'dt', 'caption', 'figcaption', 'blockquote']);
+const HEADING_TAGS = new Set(['h2', 'h3', 'h4']);
+
+const MAX_CONTEXT = 240; // Characters of surrounding sentence kept per link
+
+// Lower is more useful to a solver; used to keep the best occurrence of a link.
+const REGION_RANK: Record<LinkRegion, number> = { lead: 0, body: 1, infobox: 2, navbox: 3 };
+
+interface OpenTag {
+  name: string;
+  region?: 'infobox' | 'navbox';
+  block: boolean;
+  skip: boolean; // Text inside is left out of headings and context
+}
+
+interface PendingLink {
+  title: string;
+  text: string;
+  section: string | null;
+  region: LinkRegion;
+  offset: number; // Position of the anchor text in the block's text
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+
+const safeDecode = (path: string) => {
+  try {
+    return decodeURIComponent(path).replace(/_/g, ' ');
+  } catch {
+    return path.replace(/_/g, ' ');
+  }
+};
+
+const attr = (attrs: string, name: string): string | null => {
+  const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`, 'i'));
+  return match ? decodeEntities(match[1]) : null;
+};
+
+function regionOf(attrs: string): OpenTag['region'] {
+  const className = attr(attrs, 'class') || '';
+  if (/\binfobox\b/.test(className)) return 'infobox';
+  if (/\b(navbox|vertical-navbox|sidebar|hatnote|metadata)\b/.test(className) || attr(attrs, 'role') === 'navigation') return 'navbox';
+  return undefined;
+}
+
+// The sentence of `text` around `offset`, trimmed to MAX_CONTEXT.
+function sentenceAt(text: string, offset: number): string {
+  const before = text.slice(0, offset);
+  const start = Math.max(before.search(/[^.!?]*$/), 0);
+  const endMatch = text.slice(offset).search(/[.!?](\s|$)/);
+  const end = endMatch === -1 ? text.length : offset + endMatch + 1;
+  const sentence = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return sentence.length > MAX_CONTEXT ? `${sentence.slice(0, MAX_CONTEXT - 1)}…` : sentence;
+}
+
+// Every article link in the HTML that is also in `articleLinks`, once per title,
+// in order of first appearance. A link that appears several times keeps the
+// details of its most useful occurrence (lead > body > infobox > navbox).
+export function extractLinkDetails(html: string, articleLinks: string[]): PageLink[] {
+  const canonical = new Map(articleLinks.map(l => [normalizeTitle(l), l]));
+  const found = new Map<string, PageLink>();
+
+  const stack: OpenTag[] = [];
+  let section: string | null = null;
+  let heading: string | null = null; // Text of a heading being read
+  let blockText = '';
+  let blockLinks: PendingLink[] = [];
+  let anchor: PendingLink | null = null;
+
+  const currentRegion = (): LinkRegion => {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (stack[i].region) return stack[i].region!;
+    }
+    return section === null ? 'lead' : 'body';
+  };
+
+  const record = (link: PendingLink, context: string) => {
+    const key = normalizeTitle(link.title);
+    const existing = found.get(key);
+    const details: PageLink = {
+      title: link.title,
+      text: link.text.replace(/\s+/g, ' ').trim() || link.title,
+      section: link.section,
+      index: existing ? existing.index : found.size,
+      region: link.region,
+      context
+    };
+    if (!existing || REGION_RANK[link.region] < REGION_RANK[existing.region]) {
+      found.set(key, details);
+    }
+  };
+
+  const flushBlock = () => {
+    blockLinks.forEach(link => record(link, sentenceAt(blockText, link.offset)));
+    blockText = '';
+    blockLinks = [];
+  };
+
+  const tagPattern = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html))) {
+    const [, closing, rawName, attrs, rawText] = match;
+
+    if (rawText !== undefined) {
+      if (stack.some(t => t.skip)) continue;
+      const text = decodeEntities(rawText);
+      if (heading !== null) heading += text;
+      blockText += text;
+      if (anchor) anchor.text += text;
+      continue;
+    }
+    if (!rawName) continue; // Comment
+
+    const name = rawName.toLowerCase();
+    if (!closing) {
+      if (HEADING_TAGS.has(name)) {
+        flushBlock();
+        heading = '';
+      }
+      if (name === 'a') {
+        const href = attr(attrs, 'href') || '';
+        const hrefMatch = href.match(/\/wiki\/([^#?]+)/);
+        const linkTitle = hrefMatch ? canonical.get(normalizeTitle(attr(attrs, 'title') || safeDecode(hrefMatch[1]))) : undefined;
+        anchor = linkTitle && heading === null
+          ? { title: linkTitle, text: '', section, region: currentRegion(), offset: blockText.length }
+          : null;
+      }
+      if (VOID_TAGS.has(name) || attrs.trim().endsWith('/')) continue;
+      const block = BLOCK_TAGS.has(name);
+      if (block) flushBlock();
+      const skip = SKIP_TAGS.has(name) || SKIP_CLASSES.test(attr(attrs, 'class') || '');
+      stack.push({ name, region: regionOf(attrs), block, skip });
+      continue;
+    }
+
+    // Closing tag: pop to the matching open tag, ignoring stray closers
+    const index = stack.map(t => t.name).lastIndexOf(name);
+    if (index === -1) continue;
+    const closed = stack.splice(index);
+
+    if (name === 'a' && anchor) {
+      blockLinks.push(anchor);
+      anchor = null;
+    }
+    if (HEADING_TAGS.has(name) && heading !== null) {
+      section = heading.replace(/\s+/g, ' ').trim() || section;
+      heading = null;
+      blockText = '';
+    }
+    if (closed.some(t => t.block)) flushBlock();
+  }
+  flushBlock();
+
+  return Array.from(found.values()).sort((a, b) => a.index - b.index);
+}
@@ -0,0 +1,105 @@
+import { AIResponse, Solver, SolverMoveRequest, TokenUsage, WikiPage } from '../types';
+import * as wikiService from './wikiService';
+import { normalizeTitle } from './wikiService';
+
+export const DEFAULT_LINK_RETRIES = 2;
+
+export type LinkMatchKind = 'exact' | 'fuzzy' | 'redirect';
+
+export interface LinkMatch {
+  link: string; // Title to navigate to
+  kind: LinkMatchKind;
+}
+
+// Looser than normalizeTitle: also ignores section fragments, wrapping quotes or
+// brackets, trailing periods and repeated whitespace that models like to add.
+const looseKey = (title: string) =>
+  normalizeTitle(
+    title
+      .replace(/#.*$/, '')
+      .replace(/^["'“”‘’\[\(\s]+|["'“”‘’\]\)\s.]+$/g, '')
+      .replace(/[_\s]+/g, ' ')
+  );
+
+// Resolve a solver's pick to a link on the page: exact title, then a loose
+// textual match, then via redirects. Null when the pick is not on the page.
+export async function matchLink(choice: string, page: WikiPage): Promise<LinkMatch | null> {
+  if (!choice.trim()) return null;
+  if (page.links.includes(choice)) return { link: choice, kind: 'exact' };
+
+  const key = looseKey(choice);
+  const fuzzy = page.links.find(l => looseKey(l) === key);
+  if (fuzzy) return { link: fuzzy, kind: 'fuzzy' };
+
+  // The pick may be a redirect to one of the links, or the article behind a
+  // redirect the page links through
+  try {
+    const resolved = normalizeTitle((await wikiService.fetchPageData(choice)).title);
+    const direct = page.links.find(l => normalizeTitle(l) === resolved);
+    if (direct) return { link: direct, kind: 'redirect' };
+
+    const { titles: targets } = await wikiService.fetchLinks(page.title);
+    const viaRedirect = targets.find(t => normalizeTitle(t) === resolved);
+    if (viaRedirect) return { link: viaRedirect, kind: 'redirect' };
+  } catch {
+    // A title that does not exist is simply not a valid move
+  }
+  return null;
+}
+
+export interface ValidatedMove {
+  move: AIResponse; // selectedLink replaced by the matched link; usage summed over every attempt
+  invalidChoices: string[]; // Rejected picks, in order
+  correctedFrom?: string; // The solver's literal pick when it only matched loosely or via a redirect
+}
+
+const addUsage = (a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined =>
+  a && b ? { inputTokens: a.inputTokens + b.inputTokens, outputTokens: a.outputTokens + b.outputTokens } : a || b;
+
+// Ask the solver for a move and check the picked link against the page,
+// re-prompting with a correction up to `retries` times before giving up.
+// The error thrown then carries the usage of every rejected attempt as `usage`.
+export async function getValidatedMove(
+  solver: Solver,
+  request: SolverMoveRequest,
+  retries: number = DEFAULT_LINK_RETRIES
+): Promise<ValidatedMove> {
+  const invalidChoices: string[] = [];
+  let usage: TokenUsage | undefined;
+
+  while (true) {
+    const move = await solver.getNextMove({
+      ...request,
+      invalidChoices: invalidChoices.length ? [...invalidChoices] : undefined
+    });
+    usage = addUsage(usage, move.usage);
+
+    // Back moves are checked against the navigation stack by resolveMove
+    if (move.action === 'BACK' && request.backStack?.length) {
+      return { move: { ...move, usage }, invalidChoices };
+    }
+
+    const match = await matchLink(move.selectedLink, request.currentPage);
+    if (match) {
+      return {
+        move: {
+          ...move,
+          selectedLink: match.link,
+          usage,
+          // Keep the ranking's head in sync with the corrected pick
+          candidates: move.candidates?.map((c, i) => (i === 0 && c.link === move.selectedLink ? { ...c, link: match.link } : c))
+        },
+        invalidChoices,
+        correctedFrom: match.kind === 'exact' ? undefined : move.selectedLink
+      };
+    }
+
+    invalidChoices.push(move.selectedLink || '(no link)');
+    if (invalidChoices.length > retries) {
+      const choices = invalidChoices.map(c => `"${c}"`).join(', ');
+      const attempts = invalidChoices.length === 1 ? '1 attempt' : `${invalidChoices.length} attempts`;
+      const message = `${solver.label} did not pick a link on "${request.currentPage.title}" in ${attempts}: ${choices}.`;
+      throw Object.assign(new Error(message), { usage });
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import OpenAI from 'openai';
+import { AIResponse, GameRules, SolverConversation, WikiPage } from "../types";
+import { buildMovePrompt, toAIResponse } from "./promptUtils";
+
+// Any OpenAI-compatible chat completions server: Ollama, llama.cpp's server, vLLM, LM Studio...
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_LOCAL_MODEL = 'llama3.1';
+
+// Endpoints that rejected response_format; later moves skip it instead of failing first every time.
+const noJsonMode = new Set<string>();
+
+export async function getNextMove(
+  currentPage: WikiPage,
+  targetPage: string,
+  history: string[],
+  baseUrl?: string,
+  modelName?: string,
+  apiKey?: string,
+  backStack?: string[],
+  invalidChoices?: string[],
+  rules?: GameRules,
+  language?: string,
+  conversation?: SolverConversation,
+  promptTemplate?: string
+): Promise<AIResponse> {
+  const endpoint = (baseUrl || process.env.VITE_LOCAL_LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL).replace(/\/+$/, '');
+
+  const client = new OpenAI({
+    baseURL: endpoint,
+    apiKey: apiKey || 'not-needed', // Most local servers ignore it, but the SDK requires one
+    dangerouslyAllowBrowser: true
+  });
+
+  const prompt = buildMovePrompt(
+    { currentPage, targetPage, history, backStack, invalidChoices, rules, language },
+    'Respond ONLY with a JSON object with two keys: "reasoning" (string) and "selectedLink" (string). No other text.',
+    promptTemplate
+  );
+
+  const request = {
+    messages: conversation ? conversation.messages(prompt) : [{ role: "user" as const, content: prompt }],
+    model: modelName || DEFAULT_LOCAL_MODEL
+  };
+
+  let completion: OpenAI.Chat.Completions.ChatCompletion;
+  try {
+    if (noJsonMode.has(endpoint)) {
+      completion = await client.chat.completions.create(request);
+    } else {
+      try {
+        completion = await client.chat.completions.create({ ...request, response_format: { type: "json_object" } });
+      } catch (err) {
+        // Servers without JSON mode answer 400/422; retry with the prompt alone
+        if (!(err instanceof OpenAI.BadRequestError || err instanceof OpenAI.UnprocessableEntityError)) throw err;
+        completion = await client.chat.completions.create(request);
+        noJsonMode.add(endpoint);
+      }
+    }
+  } catch (err) {
+    if (err instanceof OpenAI.APIConnectionError) {
+      throw new Error(`Cannot reach the local LLM server at ${endpoint}. Is it running?`);
+    }
+    throw err;
+  }
+
+  // Not every server reports usage
+  const usage = completion.usage && {
+    inputTokens: completion.usage.prompt_tokens,
+    outputTokens: completion.usage.completion_tokens
+  };
+
+  const content = completion.choices[0].message.content || '';
+  try {
+    return { ...toAIResponse(extractJsonObject(content)), usage };
+  } catch (e) {
+    console.error("Failed to parse AI response", e);
+    return {
+      reasoning: "Failed to parse AI response.",
+      selectedLink: '',
+      usage
+    };
+  }
+}
+
+// Without JSON mode, models often wrap the object in prose or a ```json fence.
+function extractJsonObject(content: string): any {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end < start) throw new Error("No JSON object in response.");
+  return JSON.parse(content.slice(start, end + 1));
+}
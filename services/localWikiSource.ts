@@ -0,0 +1,147 @@
+import { LinkQueryResult, PageSource, SnapshotPage, WikiPage, WikiSnapshot } from '../types';
+import { absolutizeWikiHtml, canonicalTitle, extractArticleLinks, extractCategories } from './wikiService';
+import { extractLinkDetails } from './linkExtraction';
+
+// Snapshot keys ignore underscores vs. spaces and the case of the first letter, like
+// MediaWiki; pages differing in any other letter's case are distinct articles.
+const snapshotKey = canonicalTitle;
+
+// Plain-text first paragraph of an action=parse HTML body, used when a saved
+// response has no accompanying REST summary.
+export function summaryFromHtml(html: string): string {
+  const paragraphs = html.match(/<p\b[^>]*>[\s\S]*?<\/p>/gi) || [];
+  for (const p of paragraphs) {
+    const text = p
+      .replace(/<sup\b[\s\S]*?<\/sup>/gi, '')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&#160;|&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (text) return text;
+  }
+  return 'No summary available.';
+}
+
+// Convert one saved `action=parse&prop=text|links&format=json` response into a snapshot page.
+// Categories are kept when the response was fetched with prop=categories too.
+export function snapshotPageFromParseResponse(response: any, summary?: string): SnapshotPage {
+  if (response.error) throw new Error(response.error.info);
+  const parseData = response.parse;
+  const html = parseData.text?.['*'] ?? '';
+  return {
+    title: parseData.title,
+    summary: summary || summaryFromHtml(html),
+    links: extractArticleLinks(parseData.links),
+    html,
+    categories: extractCategories(parseData.categories)
+  };
+}
+
+// Build a snapshot from a set of saved action=parse responses. Redirects reported
+// by responses fetched with `redirects=1` are kept as aliases.
+export function snapshotFromParseResponses(responses: any[]): WikiSnapshot {
+  const snapshot: WikiSnapshot = { version: 1, createdAt: new Date().toISOString(), pages: [], redirects: {} };
+  for (const response of responses) {
+    const page = snapshotPageFromParseResponse(response);
+    snapshot.pages.push(page);
+    for (const r of response.parse.redirects || []) {
+      snapshot.redirects![r.from] = r.to;
+    }
+  }
+  return snapshot;
+}
+
+export function createLocalPageSource(snapshot: WikiSnapshot, label = 'Local Snapshot'): PageSource {
+  if (snapshot.version !== 1) {
+    throw new Error(`Unsupported snapshot version: ${snapshot.version}`);
+  }
+
+  const pages = new Map<string, SnapshotPage>();
+  snapshot.pages.forEach(p => pages.set(snapshotKey(p.title), p));
+
+  const redirects = new Map<string, string>();
+  Object.entries(snapshot.redirects || {}).forEach(([from, to]) => redirects.set(snapshotKey(from), to));
+
+  const titles = snapshot.pages.map(p => p.title);
+
+  const resolve = (title: string): SnapshotPage | undefined => {
+    const key = snapshotKey(title);
+    return pages.get(key) || pages.get(snapshotKey(redirects.get(key) || ''));
+  };
+
+  const resolvedLinks = (page: SnapshotPage) =>
+    Array.from(new Set(page.links.map(l => resolve(l)?.title).filter((t): t is string => !!t)));
+
+  // Reverse link index, built on first use
+  let backlinks: Map<string, string[]> | null = null;
+  const backlinkIndex = () => {
+    if (!backlinks) {
+      backlinks = new Map();
+      for (const page of snapshot.pages) {
+        for (const linked of resolvedLinks(page)) {
+          const key = snapshotKey(linked);
+          backlinks.set(key, [...(backlinks.get(key) || []), page.title]);
+        }
+      }
+    }
+    return backlinks;
+  };
+
+  return {
+    id: 'local',
+    label,
+
+    async fetchRandomPageTitle(): Promise<string> {
+      if (titles.length === 0) throw new Error('Snapshot contains no pages.');
+      return titles[Math.floor(Math.random() * titles.length)];
+    },
+
+    async fetchPageData(title: string): Promise<WikiPage> {
+      const page = resolve(title);
+      if (!page) {
+        throw new Error(`The page "${title}" is not in the local snapshot.`);
+      }
+      // Only links that resolve inside the snapshot are playable
+      const links = page.links.filter(l => resolve(l) !== undefined);
+      return {
+        title: page.title,
+        summary: page.summary || 'No summary available.',
+        links,
+        extract: absolutizeWikiHtml(page.html || ''),
+        linkDetails: page.html ? extractLinkDetails(page.html, links) : undefined,
+        categories: page.categories
+      };
+    },
+
+    async searchPage(query: string): Promise<string[]> {
+      const q = snapshotKey(query);
+      return titles.filter(t => snapshotKey(t).startsWith(q)).slice(0, 5);
+    },
+
+    async fetchLinks(title: string): Promise<LinkQueryResult> {
+      const page = resolve(title);
+      return { titles: page ? resolvedLinks(page) : [], requests: 1, truncated: false };
+    },
+
+    async fetchBacklinks(title: string): Promise<LinkQueryResult> {
+      const page = resolve(title);
+      return { titles: page ? backlinkIndex().get(snapshotKey(page.title)) || [] : [], requests: 1, truncated: false };
+    }
+  };
+}
+
+// Browser helper: load a snapshot JSON file, either a WikiSnapshot or an array
+// of saved action=parse responses.
+export async function loadSnapshotFile(file: Blob): Promise<WikiSnapshot> {
+  return parseSnapshotJson(await file.text());
+}
+
+export function parseSnapshotJson(text: string): WikiSnapshot {
+  const data = JSON.parse(text);
+  if (Array.isArray(data)) return snapshotFromParseResponses(data);
+  if (!data || !Array.isArray(data.pages)) {
+    throw new Error('Invalid snapshot: expected a "pages" array or a list of action=parse responses.');
+  }
+  return data as WikiSnapshot;
+}
@@ -0,0 +1,120 @@
+import { LinkQueryResult } from '../types';
+import * as wikiService from './wikiService';
+import { canonicalTitle } from './wikiService';
+
+export interface OracleOptions {
+  maxDepth?: number; // Longest path (in clicks) to search for. Default: 6
+  maxRequests?: number; // HTTP requests allowed before giving up. Default: 150
+  signal?: AbortSignal;
+}
+
+export interface OracleResult {
+  path: string[] | null; // Start ... target, or null when no path was found within the limits
+  clicks: number | null;
+  requests: number;
+  // True when the search stopped on maxDepth/maxRequests or a link list was cut short. A path found
+  // then is a real path but may not be the shortest; no path means none was found, not that none exists.
+  limitReached: boolean;
+}
+
+interface SearchSide {
+  frontier: string[];
+  depth: number;
+  dist: Map<string, number>;
+  parent: Map<string, string | null>; // Canonical title -> neighbor one step closer to this side's origin
+  titles: Map<string, string>; // Canonical title -> display title
+  expand: (title: string) => Promise<LinkQueryResult>;
+}
+
+const createSide = (origin: string, expand: SearchSide['expand']): SearchSide => {
+  const key = canonicalTitle(origin);
+  return {
+    frontier: [origin],
+    depth: 0,
+    dist: new Map([[key, 0]]),
+    parent: new Map([[key, null]]),
+    titles: new Map([[key, origin]]),
+    expand
+  };
+};
+
+// Walk parent pointers from `key` back to the side's origin.
+const chain = (side: SearchSide, key: string): string[] => {
+  const titles: string[] = [];
+  let current: string | null = key;
+  while (current !== null) {
+    titles.push(side.titles.get(current)!);
+    current = side.parent.get(current) ?? null;
+  }
+  return titles;
+};
+
+// True shortest path between two pages using bidirectional BFS: forward over
+// page links from the start, backward over backlinks from the target. Each
+// round expands one full level of whichever frontier is smaller.
+export async function findShortestPath(
+  startPage: string,
+  targetPage: string,
+  options: OracleOptions = {}
+): Promise<OracleResult> {
+  const maxDepth = options.maxDepth ?? 6;
+  const maxRequests = options.maxRequests ?? 150;
+  let requests = 0;
+  let truncated = false; // Some link list was incomplete, so the graph was not fully seen
+
+  if (canonicalTitle(startPage) === canonicalTitle(targetPage)) {
+    return { path: [startPage], clicks: 0, requests, limitReached: false };
+  }
+
+  const forward = createSide(startPage, wikiService.fetchLinks);
+  const backward = createSide(targetPage, wikiService.fetchBacklinks);
+
+  while (forward.frontier.length > 0 && backward.frontier.length > 0) {
+    if (forward.depth + backward.depth >= maxDepth) {
+      return { path: null, clicks: null, requests, limitReached: true };
+    }
+
+    const side = forward.frontier.length <= backward.frontier.length ? forward : backward;
+    const other = side === forward ? backward : forward;
+    const next: string[] = [];
+    let best: { key: string; total: number } | null = null;
+
+    for (const title of side.frontier) {
+      if (options.signal?.aborted) throw new Error('Oracle search aborted.');
+      if (requests >= maxRequests) {
+        return { path: null, clicks: null, requests, limitReached: true };
+      }
+
+      const neighbors = await side.expand(title);
+      requests += neighbors.requests;
+      truncated ||= neighbors.truncated;
+
+      const parentKey = canonicalTitle(title);
+      for (const neighbor of neighbors.titles) {
+        const key = canonicalTitle(neighbor);
+        if (side.dist.has(key)) continue;
+        side.dist.set(key, side.depth + 1);
+        side.parent.set(key, parentKey);
+        side.titles.set(key, neighbor);
+        next.push(neighbor);
+
+        const otherDist = other.dist.get(key);
+        if (otherDist !== undefined) {
+          const total = side.depth + 1 + otherDist;
+          if (!best || total < best.total) best = { key, total };
+        }
+      }
+    }
+
+    side.frontier = next;
+    side.depth += 1;
+
+    if (best) {
+      // Forward chain runs meeting point -> start; backward chain runs meeting point -> target
+      const path = [...chain(forward, best.key).reverse(), ...chain(backward, best.key).slice(1)];
+      return { path, clicks: path.length - 1, requests, limitReached: truncated };
+    }
+  }
+
+  return { path: null, clicks: null, requests, limitReached: truncated };
+}
@@ -0,0 +1,172 @@
+import { PageSource, WikiPage } from '../types';
+import { canonicalTitle, normalizeTitle } from './wikiService';
+
+const DEFAULT_TTL = 24 * 60 * 60 * 1000; // 1 day
+
+// A stored entry is either a page or an alias recorded when a title redirected elsewhere.
+export type CacheEntry =
+  | { page: WikiPage; fetchedAt: number }
+  | { aliasOf: string; fetchedAt: number };
+
+export interface CacheStore {
+  get: (key: string) => Promise<CacheEntry | undefined>;
+  set: (key: string, entry: CacheEntry) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  sharedInFlight: number; // Requests answered by joining a fetch already in progress
+  prefetched: number; // Prefetches that went to the source; already cached titles are not counted
+  avgMissLatency: number; // ms, measured on misses
+  estimatedSavedMs: number; // hits × avgMissLatency
+}
+
+export interface CachedPageSource extends PageSource {
+  getStats: () => CacheStats;
+  clearCache: () => Promise<void>;
+}
+
+export function createMemoryStore(): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    get: async key => entries.get(key),
+    set: async (key, entry) => { entries.set(key, entry); },
+    clear: async () => entries.clear()
+  };
+}
+
+// Browser store. Falls back to memory when IndexedDB is unavailable (e.g. private mode, Node).
+export function createIndexedDbStore(dbName = 'wikirunner-cache'): CacheStore {
+  if (typeof indexedDB === 'undefined') return createMemoryStore();
+
+  const STORE = 'pages';
+  const dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await dbPromise;
+    return new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    get: key => run<CacheEntry | undefined>('readonly', store => store.get(key)),
+    set: async (key, entry) => { await run('readwrite', store => store.put(entry, key)); },
+    clear: async () => { await run('readwrite', store => store.clear()); }
+  };
+}
+
+// Wraps a page source with a persistent page cache: TTL expiry, de-duplication of
+// concurrent requests for the same title, redirect aliases and background prefetching.
+export function createCachedPageSource(
+  source: PageSource,
+  store: CacheStore,
+  options: { ttlMs?: number } = {}
+): CachedPageSource {
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL;
+  const inFlight = new Map<string, Promise<WikiPage>>();
+  const stats = { hits: 0, misses: 0, sharedInFlight: 0, prefetched: 0, missTime: 0 };
+
+  const isFresh = (entry: CacheEntry) => Date.now() - entry.fetchedAt < ttlMs;
+
+  const lookup = async (key: string): Promise<WikiPage | undefined> => {
+    const entry = await store.get(key).catch(() => undefined);
+    if (!entry || !isFresh(entry)) return undefined;
+    if ('aliasOf' in entry) {
+      const target = await store.get(entry.aliasOf).catch(() => undefined);
+      return target && 'page' in target && isFresh(target) ? target.page : undefined;
+    }
+    return entry.page;
+  };
+
+  // Prefetches leave the hit/miss stats alone and only count when they fetch
+  const load = (title: string, prefetch: boolean): Promise<WikiPage> => {
+    const key = canonicalTitle(title);
+    const pending = inFlight.get(key);
+    if (pending) {
+      if (!prefetch) stats.sharedInFlight++;
+      return pending;
+    }
+
+    const promise = (async () => {
+      const cached = await lookup(key);
+      if (cached) {
+        if (!prefetch) stats.hits++;
+        return cached;
+      }
+
+      const startTime = performance.now();
+      if (prefetch) stats.prefetched++;
+      const page = await source.fetchPageData(title);
+      if (!prefetch) {
+        stats.misses++;
+        stats.missTime += performance.now() - startTime;
+      }
+
+      const canonical = canonicalTitle(page.title);
+      const fetchedAt = Date.now();
+      await store.set(canonical, { page, fetchedAt }).catch(() => undefined);
+      if (canonical !== key) {
+        await store.set(key, { aliasOf: canonical, fetchedAt }).catch(() => undefined);
+      }
+      return page;
+    })();
+
+    inFlight.set(key, promise);
+    promise.then(() => inFlight.delete(key), () => inFlight.delete(key));
+    return promise;
+  };
+
+  return {
+    ...source,
+    label: `${source.label} (cached)`,
+    fetchPageData: title => load(title, false),
+    prefetch: (titles: string[]) => {
+      for (const title of titles) {
+        if (inFlight.has(canonicalTitle(title))) continue;
+        load(title, true).catch(() => undefined);
+      }
+    },
+    getStats: () => {
+      const avgMissLatency = stats.misses ? stats.missTime / stats.misses : 0;
+      return {
+        hits: stats.hits,
+        misses: stats.misses,
+        sharedInFlight: stats.sharedInFlight,
+        prefetched: stats.prefetched,
+        avgMissLatency,
+        estimatedSavedMs: (stats.hits + stats.sharedInFlight) * avgMissLatency
+      };
+    },
+    clearCache: () => store.clear()
+  };
+}
+
+// Cheap guess at the links a solver is likely to pick, for speculative prefetching:
+// the target itself if linked, then links sharing the most words with the target.
+export function pickPrefetchCandidates(page: WikiPage, targetPage: string, count: number): string[] {
+  const words = (text: string) => new Set(text.toLowerCase().split(/[\s_()\-,]+/).filter(w => w.length > 2));
+  const targetWords = words(targetPage);
+  const targetNorm = normalizeTitle(targetPage);
+
+  return page.links
+    .map((link, index) => {
+      if (normalizeTitle(link) === targetNorm) return { link, score: Infinity, index };
+      let score = 0;
+      words(link).forEach(w => { if (targetWords.has(w)) score++; });
+      return { link, score, index };
+    })
+    .filter(c => c.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, count)
+    .map(c => c.link);
+}
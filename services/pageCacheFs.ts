@@ -0,0 +1,29 @@
+// Node-only page cache store: one JSON file per key. Not imported by the browser app.
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { CacheEntry, CacheStore } from './pageCache';
+
+export function createFileStore(dir: string): CacheStore {
+  // Capitals are escaped so keys differing only in case stay apart on case-insensitive file systems
+  const fileFor = (key: string) =>
+    path.join(dir, `${encodeURIComponent(key).replace(/[A-Z]/g, c => `^${c.toLowerCase()}`)}.json`);
+  const ready = mkdir(dir, { recursive: true });
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await readFile(fileFor(key), 'utf8')) as CacheEntry;
+      } catch {
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      await ready;
+      await writeFile(fileFor(key), JSON.stringify(entry));
+    },
+    async clear() {
+      await rm(dir, { recursive: true, force: true });
+      await mkdir(dir, { recursive: true });
+    }
+  };
+}
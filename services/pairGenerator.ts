@@ -0,0 +1,187 @@
+// Seeded start/target pairs. The same seed always gives the same pair from the
+// curated pool; pairs walked from it through well-linked pages are reproducible
+// as long as the pages on the way do not change.
+import { BenchmarkTier } from './benchmarkSuites';
+import * as wikiService from './wikiService';
+import { normalizeTitle } from './wikiService';
+import { measureProgress } from './progressService';
+import { DEFAULT_LANGUAGE } from './languages';
+
+// Broad, well-linked English Wikipedia articles that make fair starts and targets.
+// Other editions play their interlanguage equivalents. Titles are canonical article
+// titles, never redirects. Append only: reordering or removing entries changes every
+// past seed and daily challenge.
+export const CURATED_POOL = [
+  'Apollo 11', 'Cheese', 'Moon', 'Roman Empire', 'Jazz', 'Mathematics', 'Volcano', 'William Shakespeare',
+  'Coffee', 'Industrial Revolution', 'Photosynthesis', 'Byzantine Empire', 'Plate tectonics', 'Baroque music',
+  'Albert Einstein', 'Dog', 'Wolf', 'Pizza', 'Chess', 'Olympic Games', 'Ancient Egypt', 'Black hole',
+  'DNA', 'Leonardo da Vinci', 'Printing press', 'Silk Road', 'Tea', 'Football', 'Dinosaur', 'Internet',
+  'Mount Everest', 'Amazon River', 'Sahara', 'Great Wall of China', 'Vikings', 'French Revolution',
+  'World War I', 'Cold War', 'Electricity', 'Penicillin', 'Charles Darwin', 'Marie Curie', 'Isaac Newton',
+  'Ludwig van Beethoven', 'The Beatles', 'Hollywood', 'Video game', 'Bicycle', 'Steam engine', 'Aviation',
+  'RMS Titanic', 'Chocolate', 'Rice', 'Bread', 'Wine', 'Honey bee', 'Octopus', 'Shark', 'Elephant',
+  'Rainforest', 'Glacier', 'Earthquake', 'Solar System', 'Mars', 'Telescope', 'Calculus', 'Philosophy',
+  'Democracy', 'Buddhism', 'Myth', 'Opera', 'Impressionism', 'Architecture', 'Castle', 'Samurai',
+  'Piracy', 'Money', 'Stock market', 'Vaccine', 'Human brain', 'Language', 'Alphabet', 'Origami', 'Tardigrade'
+];
+
+const MIN_LINKS = 150; // Default bar for a "well-linked" page
+const WALK_HOPS = 3; // Link hops from a curated page when drawing well-linked pages
+const WALK_TRIES = 5; // Links tried per hop before staying put
+const TIER_ATTEMPTS = 8; // Pairs drawn while looking for a requested difficulty
+
+export type PairPool = 'curated' | 'linked';
+
+export interface PairOptions {
+  pool?: PairPool; // Default: curated
+  minLinks?: number; // 'linked' pool only. Default: 150
+  tier?: BenchmarkTier; // Keep drawing until the estimate matches, up to a few attempts
+}
+
+export interface DifficultyEstimate {
+  tier: BenchmarkTier;
+  score: number; // 0 (trivial) to 1 (hard)
+  directLink: boolean; // The start page links straight to the target
+  similarity?: number;
+  categoryOverlap?: number;
+  targetLinks?: number; // Outgoing links of the target, a rough proxy for how well connected it is
+}
+
+export interface GeneratedPair {
+  seed: string;
+  start: string;
+  target: string;
+  difficulty?: DifficultyEstimate;
+}
+
+// Deterministic generator in [0, 1) from a string seed (xmur3 hash into mulberry32).
+export function createRng(seed: string): () => number {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  let state = (h ^ (h >>> 16)) >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const pick = <T>(rng: () => number, items: T[]): T => items[Math.floor(rng() * items.length)];
+
+export const randomSeed = () => Math.random().toString(36).slice(2, 8);
+
+function curatedPair(rng: () => number): [string, string] {
+  const start = pick(rng, CURATED_POOL);
+  let target = pick(rng, CURATED_POOL);
+  while (target === start) target = pick(rng, CURATED_POOL);
+  return [start, target];
+}
+
+// A pool title on the active edition. Editions without the article keep the
+// English title, which then fails to load like any other missing page.
+async function localizeTitle(title: string): Promise<string> {
+  const language = wikiService.getLanguage();
+  if (language === DEFAULT_LANGUAGE) return title;
+  const localized = await wikiService.fetchInterlanguageTitle(title, DEFAULT_LANGUAGE, language).catch(() => null);
+  return localized ?? title;
+}
+
+// A generated pair with its pool titles on the active edition.
+export async function localizePair(pair: GeneratedPair): Promise<GeneratedPair> {
+  const [start, target] = await Promise.all([localizeTitle(pair.start), localizeTitle(pair.target)]);
+  return { ...pair, start, target };
+}
+
+// A page at least `minLinks` links big, reached by a seeded walk from a curated page.
+// Links are sorted first so the walk does not depend on the page source's order.
+async function wellLinkedTitle(rng: () => number, minLinks: number): Promise<string> {
+  let page = await wikiService.fetchPageData(await localizeTitle(pick(rng, CURATED_POOL)));
+  for (let hop = 0; hop < WALK_HOPS; hop++) {
+    const links = [...page.links].sort();
+    for (let attempt = 0; attempt < WALK_TRIES && links.length; attempt++) {
+      const next = await wikiService.fetchPageData(pick(rng, links)).catch(() => null);
+      if (next && next.links.length >= minLinks) {
+        page = next;
+        break;
+      }
+    }
+  }
+  return page.title;
+}
+
+async function drawPair(rng: () => number, options: PairOptions): Promise<[string, string]> {
+  if (options.pool !== 'linked') {
+    const [start, target] = curatedPair(rng);
+    return Promise.all([localizeTitle(start), localizeTitle(target)]);
+  }
+  const minLinks = options.minLinks ?? MIN_LINKS;
+  const start = await wellLinkedTitle(rng, minLinks);
+  let target = await wellLinkedTitle(rng, minLinks);
+  for (let attempt = 0; normalizeTitle(target) === normalizeTitle(start) && attempt < WALK_TRIES; attempt++) {
+    target = await wellLinkedTitle(rng, minLinks);
+  }
+  return [start, target];
+}
+
+// Rough difficulty from one look at each page: a direct link is easy, and close
+// titles, shared categories and a well-connected target all make a pair easier.
+// Never throws; signals that cannot be measured are left out.
+export async function estimateDifficulty(start: string, target: string): Promise<DifficultyEstimate> {
+  const [startPage, targetPage] = await Promise.all([
+    wikiService.fetchPageData(start).catch(() => null),
+    wikiService.fetchPageData(target).catch(() => null)
+  ]);
+  const targetNorm = normalizeTitle(target);
+  if (startPage?.links.some(l => normalizeTitle(l) === targetNorm)) {
+    return { tier: 'easy', score: 0, directLink: true, targetLinks: targetPage?.links.length };
+  }
+
+  const { similarity, categoryOverlap } = startPage ? await measureProgress(startPage, target) : {};
+  const targetLinks = targetPage?.links.length;
+  const parts: [number, number][] = []; // [hardness 0-1, weight]
+  if (similarity !== undefined) parts.push([1 - Math.max(0, Math.min(1, similarity)), 0.5]);
+  if (categoryOverlap !== undefined) parts.push([1 - Math.min(1, categoryOverlap * 5), 0.3]);
+  if (targetLinks !== undefined) parts.push([Math.max(0, 1 - targetLinks / 300), 0.2]);
+  const weight = parts.reduce((sum, [, w]) => sum + w, 0);
+  const score = weight ? parts.reduce((sum, [h, w]) => sum + h * w, 0) / weight : 0.5;
+
+  return {
+    tier: score < 0.4 ? 'easy' : score < 0.65 ? 'medium' : 'hard',
+    score,
+    directLink: false,
+    similarity,
+    categoryOverlap,
+    targetLinks
+  };
+}
+
+// The pair for `seed`. With a tier, draws continue from the same seed until the
+// estimate matches; if none does, the last draw is returned with its estimate.
+export async function generatePair(seed: string, options: PairOptions = {}): Promise<GeneratedPair> {
+  const rng = createRng(seed);
+  let pair: GeneratedPair | null = null;
+  for (let attempt = 0; attempt < (options.tier ? TIER_ATTEMPTS : 1); attempt++) {
+    const [start, target] = await drawPair(rng, options);
+    pair = { seed, start, target, difficulty: options.tier ? await estimateDifficulty(start, target) : undefined };
+    if (!options.tier || pair.difficulty!.tier === options.tier) break;
+  }
+  return pair!;
+}
+
+// UTC calendar day, so everyone gets the same challenge whatever their time zone.
+export const challengeDate = (date = new Date()) => date.toISOString().slice(0, 10);
+
+// Today's puzzle, from the curated pool only so it needs no network and is the same
+// for everyone. The titles are English; see localizePair for other editions.
+export function dailyChallenge(date = new Date()): GeneratedPair {
+  const seed = `daily-${challengeDate(date)}`;
+  const [start, target] = curatedPair(createRng(seed));
+  return { seed, start, target };
+}
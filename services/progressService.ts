@@ -0,0 +1,43 @@
+import { PageSource, StepProgress, WikiPage } from '../types';
+import * as wikiService from './wikiService';
+import { normalizeTitle } from './wikiService';
+import { rankLinks } from './vectorService';
+
+// Target categories by normalized title, per page source object: a run fetches its
+// target once, and switching editions or snapshots (every snapshot's id is "local")
+// never reuses another source's categories
+const targetCategories = new WeakMap<PageSource, Map<string, Promise<string[] | undefined>>>();
+
+function categoriesOf(targetPage: string): Promise<string[] | undefined> {
+  const source = wikiService.getPageSource();
+  if (!targetCategories.has(source)) targetCategories.set(source, new Map());
+  const cache = targetCategories.get(source)!;
+  const key = normalizeTitle(targetPage);
+  let categories = cache.get(key);
+  if (!categories) {
+    categories = wikiService.fetchPageData(targetPage).then(page => page.categories, () => undefined);
+    cache.set(key, categories);
+  }
+  return categories;
+}
+
+function jaccard(a: string[], b: string[]): number | undefined {
+  if (!a.length || !b.length) return undefined;
+  const left = new Set(a.map(normalizeTitle));
+  const right = new Set(b.map(normalizeTitle));
+  const shared = Array.from(left).filter(c => right.has(c)).length;
+  return shared / (left.size + right.size - shared);
+}
+
+// How close `page` is to the target. Never throws: a signal that cannot be measured
+// (no vector model, no categories from the page source) is simply left out.
+export async function measureProgress(page: WikiPage, targetPage: string): Promise<StepProgress> {
+  const [similarity, categories] = await Promise.all([
+    rankLinks([page.title], targetPage).then(([c]) => c.score, () => undefined),
+    page.categories ? categoriesOf(targetPage) : Promise.resolve(undefined)
+  ]);
+  return {
+    similarity,
+    categoryOverlap: page.categories && categories ? jaccard(page.categories, categories) : undefined
+  };
+}
@@ -0,0 +1,133 @@
+import { PromptTemplate } from '../types';
+
+const STORAGE_KEY = 'wikirunner.promptTemplates';
+const VERSIONS_KEY = 'wikirunner.promptTemplateVersions'; // Highest version ever saved per name
+
+// Values a template can pull in. The response format, candidate, back-move and
+// correction instructions are not among them: solvers always append those after
+// the template, since parsing the reply depends on them.
+export const PROMPT_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: 'currentPage', description: 'Title of the current page' },
+  { key: 'targetPage', description: 'Title of the target page' },
+  { key: 'summary', description: 'Summary of the current page' },
+  { key: 'links', description: 'Links on the current page, with a count header' },
+  { key: 'path', description: 'Pages visited so far, joined with ->' },
+  { key: 'navigation', description: 'Critical rules, including the back-move stack when backtracking is on' },
+  { key: 'rules', description: 'Rule variant instructions; empty for the classic game' },
+  { key: 'language', description: 'Wikipedia edition note; empty for English' }
+];
+
+const REQUIRED_PLACEHOLDERS = ['currentPage', 'targetPage', 'links'];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z]+)\s*\}\}/g;
+
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  name: 'default',
+  version: 1,
+  body: `You are an expert Wikipedia Speedrunner AI.
+Your goal is to reach the target page by clicking links from the current page.
+
+{{navigation}}
+{{rules}}
+{{language}}
+
+Current Page: {{currentPage}}
+Target Page: {{targetPage}}
+
+Current Page Summary: {{summary}}
+
+{{links}}
+
+Path taken so far: {{path}}
+
+Analyze the target and the current page's links. Explain your reasoning and then provide the exact name of the link you want to click.`
+};
+
+export const templateLabel = (template: PromptTemplate) => `${template.name} v${template.version}`;
+
+// Problems that make a template unusable: unknown placeholders (usually typos)
+// and missing ones the model cannot play without. Empty when the body is fine.
+export function validateTemplate(body: string): string[] {
+  const known = new Set(PROMPT_PLACEHOLDERS.map(p => p.key));
+  const used = new Set([...body.matchAll(PLACEHOLDER_PATTERN)].map(m => m[1]));
+  const problems = [...used].filter(key => !known.has(key)).map(key => `Unknown placeholder {{${key}}}.`);
+  for (const key of REQUIRED_PLACEHOLDERS) {
+    if (!used.has(key)) problems.push(`The template must contain {{${key}}}.`);
+  }
+  return problems;
+}
+
+// Fills in every placeholder; unknown ones are left as written.
+export function renderTemplate(body: string, values: Record<string, string>): string {
+  return body
+    .replace(PLACEHOLDER_PATTERN, (match, key: string) => (key in values ? values[key] : match))
+    .replace(/\n[ \t]*\n(?:[ \t]*\n)+/g, '\n\n'); // Empty sections would otherwise leave runs of blank lines
+}
+
+// --- Persistence (browser) ---
+
+// Saved versions, oldest first. The default template is built in and never stored.
+export function loadTemplates(): PromptTemplate[] {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function loadHighestVersions(): Record<string, number> {
+  try {
+    return JSON.parse(localStorage.getItem(VERSIONS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+// Saves `body` as the next version of `name`. Versions are never overwritten or
+// reused, even after a deletion, so a label like "foo v2" always means one body;
+// a body identical to the latest version returns that version instead.
+export function saveTemplateVersion(name: string, body: string): { templates: PromptTemplate[]; saved: PromptTemplate } {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Give the template a name.');
+  if (trimmed === DEFAULT_PROMPT_TEMPLATE.name) throw new Error(`"${trimmed}" is the built-in template; choose another name.`);
+  const problems = validateTemplate(body);
+  if (problems.length) throw new Error(problems[0]);
+
+  const templates = loadTemplates();
+  const versions = templates.filter(t => t.name === trimmed);
+  const latest = versions[versions.length - 1];
+  if (latest?.body === body) return { templates, saved: latest };
+
+  const highest = loadHighestVersions();
+  const saved: PromptTemplate = { name: trimmed, version: Math.max(highest[trimmed] ?? 0, latest?.version ?? 0) + 1, body };
+  const updated = [...templates, saved];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  localStorage.setItem(VERSIONS_KEY, JSON.stringify({ ...highest, [trimmed]: saved.version }));
+  return { templates: updated, saved };
+}
+
+// The version number stays taken; see saveTemplateVersion.
+export function deleteTemplateVersion(template: PromptTemplate): PromptTemplate[] {
+  const templates = loadTemplates().filter(t => t.name !== template.name || t.version !== template.version);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  return templates;
+}
+
+// A template from a file: JSON as exported by the UI ({ name, version, body }),
+// or plain text, named after the file as version 1.
+export function parseTemplateFile(text: string, fileName: string): PromptTemplate {
+  let template: PromptTemplate;
+  if (text.trimStart().startsWith('{')) {
+    const data = JSON.parse(text);
+    if (!data || typeof data.name !== 'string' || typeof data.body !== 'string') {
+      throw new Error(`${fileName}: a JSON template needs "name" and "body".`);
+    }
+    template = { name: data.name, version: Number.isInteger(data.version) ? data.version : 1, body: data.body };
+  } else {
+    template = { name: fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, ''), version: 1, body: text.trim() };
+  }
+  const problems = validateTemplate(template.body);
+  if (problems.length) throw new Error(`${fileName}: ${problems[0]}`);
+  return template;
+}
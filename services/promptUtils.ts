@@ -0,0 +1,186 @@
+import { AIResponse, GameRules, LinkCandidate, LinkRegion, PageLink, WikiPage } from '../types';
+import { DEFAULT_LANGUAGE, findLanguage } from './languages';
+import { DEFAULT_PROMPT_TEMPLATE, renderTemplate } from './promptTemplates';
+
+export const CANDIDATE_COUNT = 5;
+export const PROMPT_LINK_LIMIT = 200;
+
+// Shared pieces of the LLM speedrunner prompts.
+
+export function navigationRules(backStack?: string[]): string {
+  if (!backStack || backStack.length === 0) {
+    return `CRITICAL RULES:
+    1. You CANNOT go back. You must always move forward.
+    2. Choose the link that is semantically closest or most likely to lead to the target.
+    3. If the target page title is in the list of links, you MUST select it.`;
+  }
+
+  return `CRITICAL RULES:
+    1. You MAY go back to any page on your navigation stack, but going back costs a move. Only do it when the current page is a dead end.
+    2. Choose the link that is semantically closest or most likely to lead to the target.
+    3. If the target page title is in the list of links, you MUST select it.
+
+    Navigation Stack (pages you can go back to): ${backStack.join(" -> ")}`;
+}
+
+export function backtrackInstructions(backStack?: string[]): string {
+  if (!backStack || backStack.length === 0) return '';
+  return `To click a link, also set "action" to "LINK". To go back instead, set "action" to "BACK" and "backTo" to the exact title of a page on the navigation stack.`;
+}
+
+const REGION_ORDER: LinkRegion[] = ['lead', 'body', 'infobox', 'navbox'];
+
+function rankByRegion(page: WikiPage): { ordered: PageLink[]; rest: string[] } {
+  const onPage = new Set(page.links);
+  const details = (page.linkDetails || []).filter(d => onPage.has(d.title));
+  const ordered = [...details].sort((a, b) =>
+    REGION_ORDER.indexOf(a.region) - REGION_ORDER.indexOf(b.region) || a.index - b.index
+  );
+  const located = new Set(details.map(d => d.title));
+  return { ordered, rest: page.links.filter(l => !located.has(l)) };
+}
+
+// The page's links, lead and body first and navboxes last; unchanged when the page has no link details.
+export function linksByRelevance(page: WikiPage): string[] {
+  const { ordered, rest } = rankByRegion(page);
+  return [...ordered.map(d => d.title), ...rest];
+}
+
+// The page's links for the prompt. With link details, lead and body links are
+// listed first, grouped by section, so the limit cuts navbox noise rather than
+// whatever sorts last alphabetically.
+export function linksForPrompt(page: WikiPage, limit = PROMPT_LINK_LIMIT): string {
+  const header = `Available Links (${page.links.length} total):`;
+  if (!page.linkDetails?.length) {
+    return `${header}\n    ${page.links.slice(0, limit).join(", ")}`;
+  }
+
+  const { ordered, rest } = rankByRegion(page);
+
+  const groups: { label: string; links: string[] }[] = [];
+  const add = (label: string, link: string) => {
+    const last = groups[groups.length - 1];
+    if (last?.label === label) last.links.push(link);
+    else groups.push({ label, links: [link] });
+  };
+  let shown = 0;
+  for (const d of ordered) {
+    if (shown++ >= limit) break;
+    const label =
+      d.region === 'lead' ? 'Lead' :
+      d.region === 'body' ? `Section "${d.section}"` :
+      d.region === 'infobox' ? 'Infobox' : 'Navigation boxes (usually less relevant)';
+    add(label, d.title);
+  }
+  for (const link of rest) {
+    if (shown++ >= limit) break;
+    add('Elsewhere on the page', link);
+  }
+
+  return `${header} listed by where they appear, most relevant parts first\n` +
+    groups.map(g => `    [${g.label}] ${g.links.join(", ")}`).join("\n");
+}
+
+export function candidateInstructions(): string {
+  return `Also include "candidates": your top ${CANDIDATE_COUNT} links ranked best first, each as {"link": exact link title, "confidence": number from 0 to 1}. The first candidate must be your selectedLink.`;
+}
+
+// Corrective note for a re-prompt after the model picked links that are not on the page.
+export function invalidChoiceFeedback(invalidChoices?: string[]): string {
+  if (!invalidChoices || invalidChoices.length === 0) return '';
+  const choices = invalidChoices.map(c => `"${c}"`).join(", ");
+  return `CORRECTION: Your previous choice (${choices}) is NOT one of the Available Links on this page. Choose again, copying a title exactly as it appears in the Available Links list.`;
+}
+
+// Rule variant section of the prompt; empty for the classic game.
+export function ruleInstructions(rules?: GameRules): string {
+  if (!rules) return '';
+  const lines: string[] = [];
+  if (rules.waypoints?.length) {
+    lines.push(`WAYPOINTS: The target only counts after you have visited these pages, in this order: ${rules.waypoints.join(" -> ")}. Head for "${rules.waypoints[0]}" first.`);
+  }
+  if (rules.forbiddenPages?.length) {
+    lines.push(`FORBIDDEN PAGES: Never click a link to ${rules.forbiddenPages.map(p => `"${p}"`).join(", ")}. Doing so loses the game.`);
+  }
+  if (rules.forbiddenCategories?.length) {
+    lines.push(`FORBIDDEN CATEGORIES: Never enter a page whose categories contain ${rules.forbiddenCategories.map(c => `"${c}"`).join(" or ")}. Doing so loses the game.`);
+  }
+  if (rules.bodyLinksOnly) {
+    lines.push(`BODY LINKS ONLY: Only links in the lead or a section of the article may be clicked. Infobox and navigation box links lose the game.`);
+  }
+  if (rules.timeTrial) {
+    lines.push(`TIME TRIAL: The run is scored by wall-clock time. Decide quickly and keep your reasoning short.`);
+  }
+  return lines.length ? `SPECIAL RULES FOR THIS GAME:
+    ${lines.join("\n    ")}` : '';
+}
+
+// Edition section of the prompt, with a note in the wiki's own language; empty for English.
+export function languageInstructions(language?: string): string {
+  if (!language || language === DEFAULT_LANGUAGE) return '';
+  const known = findLanguage(language);
+  const name = known?.name || `"${language}"`;
+  return `LANGUAGE: You are playing on the ${name} Wikipedia (${language}.wikipedia.org). Page titles and links are in ${name}. Reason in any language, but copy link titles exactly as they appear and never translate them.${known?.promptNote ? `
+    ${known.promptNote}` : ''}`;
+}
+
+export interface MovePromptInput {
+  currentPage: WikiPage;
+  targetPage: string;
+  history: string[];
+  backStack?: string[];
+  invalidChoices?: string[];
+  rules?: GameRules;
+  language?: string;
+}
+
+// The move prompt every LLM solver sends: the template filled in, then the
+// provider's reply format line and the instructions the reply parser relies on.
+export function buildMovePrompt(input: MovePromptInput, format: string, template = DEFAULT_PROMPT_TEMPLATE.body): string {
+  const body = renderTemplate(template, {
+    currentPage: input.currentPage.title,
+    targetPage: input.targetPage,
+    summary: input.currentPage.summary,
+    links: linksForPrompt(input.currentPage),
+    path: input.history.join(" -> "),
+    navigation: navigationRules(input.backStack),
+    rules: ruleInstructions(input.rules),
+    language: languageInstructions(input.language)
+  });
+  return [
+    body,
+    format,
+    candidateInstructions(),
+    backtrackInstructions(input.backStack),
+    invalidChoiceFeedback(input.invalidChoices)
+  ].filter(Boolean).join("\n\n");
+}
+
+// Map parsed model JSON onto an AIResponse. A missing link is left empty for validation to reject.
+export function toAIResponse(data: any): AIResponse {
+  const candidates = toCandidates(data.candidates);
+  const response: AIResponse = {
+    reasoning: data.reasoning || "No reasoning provided.",
+    selectedLink: typeof data.selectedLink === 'string' && data.selectedLink ? data.selectedLink : candidates[0]?.link || ''
+  };
+  if (candidates.length) response.candidates = candidates;
+  if (data.action === 'BACK') {
+    response.action = 'BACK';
+    response.backTo = data.backTo || undefined;
+  }
+  return response;
+}
+
+// Models are loose with the shape: accept bare strings and clamp confidences to 0-1.
+function toCandidates(raw: unknown): LinkCandidate[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((c: any): LinkCandidate | null => {
+      if (typeof c === 'string') return { link: c, score: 0 };
+      if (!c || typeof c.link !== 'string' || !c.link) return null;
+      const score = Number(c.confidence ?? c.score);
+      return { link: c.link, score: Number.isFinite(score) ? Math.min(1, Math.max(0, score)) : 0 };
+    })
+    .filter((c): c is LinkCandidate => c !== null)
+    .slice(0, CANDIDATE_COUNT);
+}
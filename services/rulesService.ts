@@ -0,0 +1,86 @@
+import { GameRules, RuleViolation, WikiPage } from '../types';
+import { normalizeTitle } from './wikiService';
+
+export function hasRules(rules: GameRules | undefined): boolean {
+  return !!rules && (
+    !!rules.forbiddenPages?.length ||
+    !!rules.forbiddenCategories?.length ||
+    !!rules.waypoints?.length ||
+    !!rules.bodyLinksOnly ||
+    !!rules.timeTrial
+  );
+}
+
+// Waypoints not reached yet, given every page visited so far in order. A waypoint
+// only counts once all the ones before it have been visited.
+export function remainingWaypoints(rules: GameRules | undefined, visited: string[]): string[] {
+  const waypoints = rules?.waypoints || [];
+  let reached = 0;
+  for (const title of visited) {
+    if (reached < waypoints.length && normalizeTitle(title) === normalizeTitle(waypoints[reached])) reached++;
+  }
+  return waypoints.slice(reached);
+}
+
+// The rules as a solver should see them at this point of the run.
+export function rulesForSolver(rules: GameRules | undefined, visited: string[]): GameRules | undefined {
+  return hasRules(rules) ? { ...rules, waypoints: remainingWaypoints(rules, visited) } : undefined;
+}
+
+// Where a solver should head next: the next waypoint, else the target.
+export const currentGoal = (targetPage: string, rules?: GameRules) => rules?.waypoints?.[0] || targetPage;
+
+const isForbiddenPage = (rules: GameRules, title: string) =>
+  (rules.forbiddenPages || []).some(p => normalizeTitle(p) === normalizeTitle(title));
+
+const forbiddenCategoryOf = (rules: GameRules, page: WikiPage) => {
+  const phrases = (rules.forbiddenCategories || []).map(p => p.trim().toLowerCase()).filter(Boolean);
+  return (page.categories || []).find(c => phrases.some(p => c.toLowerCase().includes(p)));
+};
+
+const isNonBodyLink = (rules: GameRules, page: WikiPage, link: string) => {
+  if (!rules.bodyLinksOnly) return false;
+  const region = page.linkDetails?.find(d => d.title === link)?.region;
+  return region === 'infobox' || region === 'navbox';
+};
+
+// Links a solver may pick under the rules. Category rules need the destination
+// page, so they can only be checked after the move.
+export function allowedLinks(page: WikiPage, links: string[], rules?: GameRules): string[] {
+  if (!rules) return links;
+  return links.filter(l => !isForbiddenPage(rules, l) && !isNonBodyLink(rules, page, l));
+}
+
+// Rules broken by moving from `from` to `destination`. `link` is the clicked link,
+// or null for a back move, which only returns to a page the run already entered.
+export function checkMove(rules: GameRules | undefined, from: WikiPage, link: string | null, destination: WikiPage): RuleViolation[] {
+  if (!rules || link === null) return [];
+  const violations: RuleViolation[] = [];
+
+  if (isNonBodyLink(rules, from, link)) {
+    violations.push({ kind: 'NON_BODY_LINK', message: `"${link}" is not a link in the article body.` });
+  }
+  if (isForbiddenPage(rules, link) || isForbiddenPage(rules, destination.title)) {
+    violations.push({ kind: 'FORBIDDEN_PAGE', message: `"${destination.title}" is a forbidden page.` });
+  }
+  const category = forbiddenCategoryOf(rules, destination);
+  if (category) {
+    violations.push({ kind: 'FORBIDDEN_CATEGORY', message: `"${destination.title}" is in the forbidden category "${category}".` });
+  }
+  return violations;
+}
+
+// Short labels for the active rules, for headers and logs.
+export function describeRules(rules: GameRules | undefined, visited: string[] = []): string[] {
+  if (!rules) return [];
+  const labels: string[] = [];
+  if (rules.waypoints?.length) {
+    const reached = rules.waypoints.length - remainingWaypoints(rules, visited).length;
+    labels.push(`Via ${rules.waypoints.join(' → ')} (${reached}/${rules.waypoints.length})`);
+  }
+  if (rules.forbiddenPages?.length) labels.push(`No ${rules.forbiddenPages.join(', ')}`);
+  if (rules.forbiddenCategories?.length) labels.push(`No categories: ${rules.forbiddenCategories.join(', ')}`);
+  if (rules.bodyLinksOnly) labels.push('Body links only');
+  if (rules.timeTrial) labels.push('Time trial');
+  return labels;
+}
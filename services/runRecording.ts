@@ -0,0 +1,81 @@
+import { BacktrackRule, GameRules, GameStatus, MemoryStrategy, GameStep, PromptTemplate, SolverType, WikiPage } from '../types';
+import { normalizeTitle } from './wikiService';
+
+export const RECORDING_FORMAT = 'wikirunner-run';
+export const RECORDING_VERSION = 1;
+
+export interface RunRecording {
+  format: typeof RECORDING_FORMAT;
+  version: typeof RECORDING_VERSION;
+  exportedAt: string;
+  config: {
+    startPage: string;
+    targetPage: string;
+    solver: SolverType;
+    model?: string;
+    maxSteps: number;
+    backtrackRule: BacktrackRule;
+    rules?: GameRules;
+    memory?: MemoryStrategy; // Conversation memory the solver ran with; omitted means stateless
+    promptTemplate?: PromptTemplate; // Prompt template the solver ran with, body included
+    seed?: string; // Pair seed or daily challenge the run was played from
+    language?: string; // Wikipedia edition played on; omitted means English
+    requestedTarget?: string; // The target as given, before redirect or interlanguage resolution
+    targetLanguage?: string;
+    pageSource: string;
+  };
+  outcome: GameStatus;
+  error?: string;
+  steps: GameStep[];
+  finalPage: string; // Page the run ended on
+  pages?: WikiPage[]; // Optional snapshots of every visited page, so replays work offline
+}
+
+export function createRecording(
+  config: RunRecording['config'],
+  outcome: GameStatus,
+  steps: GameStep[],
+  finalPage: string,
+  options: { error?: string; pages?: WikiPage[] } = {}
+): RunRecording {
+  return {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    exportedAt: new Date().toISOString(),
+    config,
+    outcome,
+    error: options.error,
+    steps,
+    finalPage,
+    pages: options.pages
+  };
+}
+
+export function parseRecording(text: string): RunRecording {
+  const data = JSON.parse(text);
+  if (data?.format !== RECORDING_FORMAT) {
+    throw new Error('Not a Wiki Runner run recording.');
+  }
+  if (data.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version: ${data.version}`);
+  }
+  if (!Array.isArray(data.steps) || typeof data.finalPage !== 'string') {
+    throw new Error('Invalid recording: missing steps or final page.');
+  }
+  return data as RunRecording;
+}
+
+// Replay positions run from 0 (first step) to steps.length (the final page).
+export function pageAtPosition(recording: RunRecording, position: number): string {
+  return position < recording.steps.length ? recording.steps[position].pageTitle : recording.finalPage;
+}
+
+export function findRecordedPage(recording: RunRecording, title: string): WikiPage | undefined {
+  const key = normalizeTitle(title);
+  return recording.pages?.find(p => normalizeTitle(p.title) === key);
+}
+
+export function recordingFileName(recording: RunRecording): string {
+  const slug = (text: string) => text.replace(/[^a-z0-9]+/gi, '_').replace(/^_|_$/g, '');
+  return `run_${slug(recording.config.startPage)}_to_${slug(recording.config.targetPage)}_${recording.config.solver}.json`;
+}
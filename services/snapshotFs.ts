@@ -0,0 +1,19 @@
+// Node-only helpers for reading snapshots from disk. Not imported by the browser app.
+import { readFile, readdir, stat } from 'fs/promises';
+import path from 'path';
+import { WikiSnapshot } from '../types';
+import { parseSnapshotJson, snapshotFromParseResponses } from './localWikiSource';
+
+// Accepts a snapshot JSON file, or a directory of saved action=parse responses (*.json).
+export async function readSnapshot(location: string): Promise<WikiSnapshot> {
+  const info = await stat(location);
+  if (!info.isDirectory()) {
+    return parseSnapshotJson(await readFile(location, 'utf8'));
+  }
+
+  const files = (await readdir(location)).filter(f => f.endsWith('.json')).sort();
+  const responses = await Promise.all(
+    files.map(async f => JSON.parse(await readFile(path.join(location, f), 'utf8')))
+  );
+  return snapshotFromParseResponses(responses);
+}
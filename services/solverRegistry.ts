@@ -0,0 +1,142 @@
+import { Solver, SolverType } from '../types';
+import * as geminiService from './geminiService';
+import * as openaiService from './openaiService';
+import * as claudeService from './claudeService';
+import * as vectorService from './vectorService';
+import * as localLlmService from './localLlmService';
+import * as hybridService from './hybridService';
+import * as humanService from './humanService';
+
+const solvers = new Map<string, Solver>();
+
+export function registerSolver(solver: Solver): void {
+  if (solvers.has(solver.id)) {
+    throw new Error(`Solver "${solver.id}" is already registered.`);
+  }
+  solvers.set(solver.id, solver);
+}
+
+export function getSolver(id: SolverType): Solver {
+  const solver = solvers.get(id);
+  if (!solver) throw new Error(`Unknown solver "${id}".`);
+  return solver;
+}
+
+// Like getSolver, but for ids that may come from outside (e.g. imported recordings, CLI flags).
+export function findSolver(id: string): Solver | undefined {
+  return solvers.get(id);
+}
+
+export function listSolvers(): Solver[] {
+  return Array.from(solvers.values());
+}
+
+// --- Built-in solvers ---
+
+registerSolver({
+  id: 'GEMINI',
+  label: 'Gemini',
+  icon: 'fa-brain',
+  color: 'blue',
+  thinkingLabel: 'Reasoning...',
+  models: [
+    { value: 'gemini-2.0-flash-exp', label: 'Gemini 2.0 Flash (Preview)' },
+    { value: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash (Fast)' },
+    { value: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro (Reasoning)' },
+    { value: 'gemini-1.5-flash-8b', label: 'Gemini 1.5 Flash-8B (Light)' }
+  ],
+  defaultModel: 'gemini-2.0-flash-exp',
+  capabilities: { needsApiKey: true, supportsStreaming: false, needsModelLoad: false, interactive: false, customEndpoint: false, conversational: true, promptTemplate: true },
+  getNextMove: ({ currentPage, targetPage, history, apiKey, model, backStack, invalidChoices, rules, language, conversation, promptTemplate }) =>
+    geminiService.getNextMove(currentPage, targetPage, history, apiKey, model, backStack, invalidChoices, rules, language, conversation, promptTemplate)
+});
+
+registerSolver({
+  id: 'OPENAI',
+  label: 'OpenAI',
+  icon: 'fa-bolt',
+  color: 'emerald',
+  thinkingLabel: 'Reasoning...',
+  models: [
+    { value: 'gpt-4o-mini', label: 'GPT-4o Mini (Fast)' },
+    { value: 'gpt-4o', label: 'GPT-4o (Smart)' },
+    { value: 'gpt-5-mini', label: 'GPT-5 Mini (Preview)' }
+  ],
+  defaultModel: 'gpt-4o-mini',
+  capabilities: { needsApiKey: true, supportsStreaming: false, needsModelLoad: false, interactive: false, customEndpoint: false, conversational: true, promptTemplate: true },
+  getNextMove: ({ currentPage, targetPage, history, apiKey, model, backStack, invalidChoices, rules, language, conversation, promptTemplate }) =>
+    openaiService.getNextMove(currentPage, targetPage, history, apiKey, model, backStack, invalidChoices, rules, language, conversation, promptTemplate)
+});
+
+registerSolver({
+  id: 'CLAUDE',
+  label: 'Claude',
+  icon: 'fa-robot',
+  color: 'amber',
+  thinkingLabel: 'Reasoning...',
+  models: [
+    { value: 'claude-sonnet-4-5-20250929', label: 'Claude 4.5 Sonnet (Latest and smartest)' },
+    { value: 'claude-sonnet-4-20250514', label: 'Claude 4 Sonnet (Smart)' },
+    { value: 'claude-haiku-4-5-20251001', label: 'Claude 4.5 Haiku (Fast)' }
+  ],
+  defaultModel: 'claude-haiku-4-5-20251001',
+  capabilities: { needsApiKey: true, supportsStreaming: false, needsModelLoad: false, interactive: false, customEndpoint: false, conversational: true, promptTemplate: true },
+  getNextMove: ({ currentPage, targetPage, history, apiKey, model, backStack, invalidChoices, rules, language, conversation, promptTemplate }) =>
+    claudeService.getNextMove(currentPage, targetPage, history, apiKey, model, backStack, invalidChoices, rules, language, conversation, promptTemplate)
+});
+
+registerSolver({
+  id: 'LOCAL',
+  label: 'Local LLM',
+  icon: 'fa-server',
+  color: 'cyan',
+  thinkingLabel: 'Reasoning...',
+  models: [],
+  defaultModel: localLlmService.DEFAULT_LOCAL_MODEL,
+  capabilities: { needsApiKey: false, supportsStreaming: false, needsModelLoad: false, interactive: false, customEndpoint: true, conversational: true, promptTemplate: true },
+  getNextMove: ({ currentPage, targetPage, history, apiKey, model, baseUrl, backStack, invalidChoices, rules, language, conversation, promptTemplate }) =>
+    localLlmService.getNextMove(currentPage, targetPage, history, baseUrl, model, apiKey, backStack, invalidChoices, rules, language, conversation, promptTemplate)
+});
+
+registerSolver({
+  id: 'VECTORS',
+  label: 'Vectors',
+  icon: 'fa-bezier-curve',
+  color: 'purple',
+  thinkingLabel: 'Calculating Vectors...',
+  models: [],
+  capabilities: { needsApiKey: false, supportsStreaming: false, needsModelLoad: true, interactive: false, customEndpoint: false, conversational: false, promptTemplate: false },
+  loadModel: vectorService.loadModel,
+  getNextMove: ({ currentPage, targetPage, history, backStack, rules }) =>
+    vectorService.getNextMove(currentPage, targetPage, history, backStack, rules)
+});
+
+// Needs the LLM solvers above to be registered: its models are theirs, prefixed with the solver id
+const hybridModels = (Object.keys(hybridService.HYBRID_LLMS) as hybridService.HybridLlm[]).flatMap(id =>
+  getSolver(id).models.map(m => ({ value: `${id}:${m.value}`, label: `${getSolver(id).label} · ${m.label}` }))
+);
+
+registerSolver({
+  id: 'HYBRID',
+  label: 'Hybrid',
+  icon: 'fa-layer-group',
+  color: 'fuchsia',
+  thinkingLabel: 'Ranking & Reasoning...',
+  models: hybridModels,
+  defaultModel: hybridModels[0].value,
+  capabilities: { needsApiKey: true, supportsStreaming: false, needsModelLoad: true, interactive: false, customEndpoint: false, conversational: true, promptTemplate: true },
+  loadModel: vectorService.loadModel,
+  getNextMove: ({ currentPage, targetPage, history, apiKey, model, backStack, invalidChoices, rules, language, conversation, promptTemplate }) =>
+    hybridService.getNextMove(currentPage, targetPage, history, model || hybridModels[0].value, apiKey, backStack, invalidChoices, rules, language, conversation, promptTemplate)
+});
+
+registerSolver({
+  id: 'HUMAN',
+  label: 'Human',
+  icon: 'fa-user',
+  color: 'rose',
+  thinkingLabel: 'Your move: click a link...',
+  models: [],
+  capabilities: { needsApiKey: false, supportsStreaming: false, needsModelLoad: false, interactive: true, customEndpoint: false, conversational: false, promptTemplate: false },
+  getNextMove: ({ currentPage }) => humanService.getNextMove(currentPage)
+});
@@ -1,51 +1,66 @@
 
-import { pipeline, env } from '@xenova/transformers';
-import { AIResponse, WikiPage } from "../types";
+import { AIResponse, GameRules, LinkCandidate, ModelLoadProgress, WikiPage } from "../types";
+import { CANDIDATE_COUNT, linksByRelevance } from "./promptUtils";
+import { allowedLinks, currentGoal } from "./rulesService";
+import { createInProcessEmbedder, Embedder, MODEL_NAME } from "./embeddingModel";
+import { createWorkerEmbedder } from "./embeddingWorkerClient";
+import { createEmbeddingCache, createIndexedDbEmbeddingStore, EmbeddingCacheStats, EmbeddingStore } from "./embeddingCache";
 
-// Force remote models to avoid 404s on local server
-env.allowLocalModels = false;
-env.useBrowserCache = false;
+// Inference runs off the main thread in the browser, so long pages no longer freeze the UI
+const embedder: Embedder = typeof Worker !== 'undefined' ? createWorkerEmbedder() : createInProcessEmbedder();
 
-// We use 'all-MiniLM-L6-v2' which is a distilled BERT model specifically trained 
-// for sentence similarity. It is much more accurate than standard BERT or USE.
-const MODEL_NAME = 'Xenova/all-MiniLM-L6-v2';
+export const loadModel = (onProgress?: (progress: ModelLoadProgress) => void) => embedder.load(onProgress);
 
-let extractor: any = null;
-let isLoading = false;
+// Abandons embeddings in flight, e.g. when the run they were for is reset.
+export const cancelEmbedding = () => embedder.cancel();
 
-export async function loadModel() {
-  if (extractor) return extractor;
-  if (isLoading) {
-    while (isLoading) {
-      await new Promise(r => setTimeout(r, 100));
+// IndexedDB in the browser; memory only in Node unless the CLI sets a file store
+let embeddingCache = createEmbeddingCache(createIndexedDbEmbeddingStore());
+
+export function setEmbeddingStore(store: EmbeddingStore) {
+  embeddingCache = createEmbeddingCache(store);
+}
+
+export const getEmbeddingStats = (): EmbeddingCacheStats => embeddingCache.getStats();
+
+export const clearEmbeddingCache = () => embeddingCache.clear();
+
+// Embeds texts through the cache; only titles never seen before reach the model.
+function embed(texts: string[]): Promise<Float32Array[]> {
+  return embeddingCache.embed(MODEL_NAME, texts, missing => embedder.embed(missing));
+}
+
+// Cosine similarity of every link to the target, best first.
+export async function rankLinks(links: string[], targetPage: string): Promise<LinkCandidate[]> {
+  const [targetVec, ...linkVecs] = await embed([targetPage, ...links]);
+
+  const scored = links.map((link, i): LinkCandidate => {
+    const vec = linkVecs[i];
+    let dot = 0;
+    for (let j = 0; j < vec.length; j++) {
+      dot += targetVec[j] * vec[j];
     }
-    return extractor;
-  }
+    return { link, score: dot };
+  });
 
-  isLoading = true;
-  try {
-    // Feature extraction pipeline with mean pooling and normalization
-    // acts as a sentence embedding generator.
-    extractor = await pipeline('feature-extraction', MODEL_NAME);
-    console.log(`Vector model ${MODEL_NAME} loaded`);
-  } catch (e) {
-    console.error("Failed to load vector model", e);
-    throw e;
-  } finally {
-    isLoading = false;
-  }
-  return extractor;
+  // Stable sort keeps page order between equal scores
+  return scored.sort((a, b) => b.score - a.score);
 }
 
 export async function getNextMove(
   currentPage: WikiPage,
   targetPage: string,
-  history: string[] = []
+  history: string[] = [],
+  backStack?: string[],
+  rules?: GameRules
 ): Promise<AIResponse> {
+  // With waypoints, the next one stands in for the target
+  const goal = currentGoal(targetPage, rules);
+
   // 0. Optimization: Immediate Target Check
   // If the target is directly available, take it immediately. 
   // This saves time and ensures 100% accuracy for the final step.
-  const targetLower = targetPage.toLowerCase();
+  const targetLower = goal.toLowerCase();
   const directLink = currentPage.links.find(l => l.toLowerCase() === targetLower);
   
   if (directLink) {
@@ -55,15 +70,14 @@ export async function getNextMove(
     };
   }
 
-  const model = await loadModel();
-  if (!model) throw new Error("Model not loaded");
-
   // 1. Filter links
   // Create a set of visited pages to avoid loops
   const normalizedHistory = new Set(history.map(h => h.toLowerCase()));
   normalizedHistory.add(currentPage.title.toLowerCase()); // Add current page to visited
 
-  const allUniqueLinks = Array.from(new Set(currentPage.links));
+  // Most relevant parts of the article first; equal scores keep this order
+  // Links the rules forbid are never candidates
+  const allUniqueLinks = allowedLinks(currentPage, Array.from(new Set(linksByRelevance(currentPage))), rules);
 
   // Prioritize Unvisited Links: Filter out any link that we have already visited
   let candidates = allUniqueLinks.filter(l => !normalizedHistory.has(l.toLowerCase()));
@@ -72,48 +86,29 @@ export async function getNextMove(
 
   // Fallback: If all links lead to visited pages (dead end), we must backtrack/loop to continue.
   if (candidates.length === 0) {
+    // With backtracking allowed, a dead end is better escaped by going back than by looping.
+    if (backStack && backStack.length > 0) {
+      const previous = backStack[backStack.length - 1];
+      return {
+        selectedLink: currentPage.links[0] || '',
+        action: 'BACK',
+        backTo: previous,
+        reasoning: `Dead end: every link on "${currentPage.title}" was already visited. Going back to "${previous}".`
+      };
+    }
     candidates = allUniqueLinks.filter(l => l.toLowerCase() !== currentPage.title.toLowerCase());
     isBacktracking = true;
   }
 
-  // Limit candidates to ensure UI doesn't freeze during inference
-  // 200 is a safe limit for browser-based BERT inference
-  candidates = candidates.slice(0, 200);
-
   if (candidates.length === 0) {
     return { selectedLink: currentPage.links[0] || "Main_Page", reasoning: "No valid links found." };
   }
 
-  // 2. Embed Target
-  // We use pooling: 'mean' and normalize: true to get a single ready-to-use vector
-  const targetOutput = await model(targetPage, { pooling: 'mean', normalize: true });
-  const targetVec = Array.from(targetOutput.data as Float32Array);
-
-  // 3. Embed Candidates & Find Best Match
-  const embeddings = await model(candidates, { pooling: 'mean', normalize: true });
-  
-  const hiddenSize = embeddings.dims[1]; // 384 for MiniLM
-  const data = embeddings.data;
-
-  let maxScore = -2;
-  let bestLink = candidates[0];
-
-  for (let i = 0; i < candidates.length; i++) {
-    // Extract vector for candidate i
-    // Manually slicing the flat array is faster than creating new subarrays
-    let dot = 0;
-    const offset = i * hiddenSize;
-    for (let j = 0; j < hiddenSize; j++) {
-      dot += targetVec[j] * data[offset + j];
-    }
-
-    if (dot > maxScore) {
-      maxScore = dot;
-      bestLink = candidates[i];
-    }
-  }
+  // 2. Embed target & candidates, rank by similarity
+  const ranked = (await rankLinks(candidates, goal)).slice(0, CANDIDATE_COUNT);
+  const { link: bestLink, score: maxScore } = ranked[0];
 
-  let reasoningText = `BERT Similarity Score: ${maxScore.toFixed(3)}. "${bestLink}" is semantically closest to "${targetPage}".`;
+  let reasoningText = `BERT Similarity Score: ${maxScore.toFixed(3)}. "${bestLink}" is semantically closest to "${goal}".`;
   
   if (isBacktracking) {
     reasoningText += " (Note: All unique links were previously visited; forced to loop).";
@@ -123,6 +118,7 @@ export async function getNextMove(
 
   return {
     selectedLink: bestLink,
-    reasoning: reasoningText
+    reasoning: reasoningText,
+    candidates: ranked
   };
 }
@@ -1,56 +1,241 @@
+import { LinkQueryResult, PageSource, WikiPage } from '../types';
+import { extractLinkDetails } from './linkExtraction';
+import { DEFAULT_LANGUAGE } from './languages';
 
-import { WikiPage } from '../types';
+export const wikiOrigin = (language = DEFAULT_LANGUAGE) => `https://${language}.wikipedia.org`;
+const wikiApi = (language: string) => `${wikiOrigin(language)}/w/api.php`;
 
-const WIKI_API = 'https://en.wikipedia.org/w/api.php';
+// Loose form for comparing titles the user or a model typed. Not a key: it
+// merges distinct articles that differ only in case ("Red Dwarf", "Red dwarf").
+export const normalizeTitle = (title: string) => title.trim().replace(/ /g, '_').toLowerCase();
 
-export async function fetchRandomPageTitle(): Promise<string> {
-  const url = `${WIKI_API}?action=query&list=random&rnnamespace=0&rnlimit=1&format=json&origin=*`;
-  const response = await fetch(url);
-  const data = await response.json();
-  return data.query.random[0].title;
+// MediaWiki's canonical form: spaces for underscores and only the first letter
+// uppercased. Distinct articles keep distinct forms, so it is safe as a cache key.
+export const canonicalTitle = (title: string) => {
+  const spaced = title.replace(/_/g, ' ').replace(/\s+/g, ' ').trim();
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+};
+
+// Rewrite relative image and link paths in action=parse HTML to absolute Wikipedia URLs
+// so images load and links look 'real'.
+export function absolutizeWikiHtml(html: string, language = DEFAULT_LANGUAGE): string {
+  const origin = wikiOrigin(language);
+  let htmlContent = html.replace(/src="\/\//g, 'src="https://');
+  htmlContent = htmlContent.replace(/href="\//g, `href="${origin}/`);
+  // Ensure protocol-relative URLs for images are fixed
+  htmlContent = htmlContent.replace(/src="\/w\/extensions/g, `src="${origin}/w/extensions`);
+  return htmlContent;
 }
 
-export async function fetchPageData(title: string): Promise<WikiPage> {
-  // Use action=parse to get full HTML and links in one go
-  // We include redirects=1 to follow any redirects automatically
-  const url = `${WIKI_API}?action=parse&page=${encodeURIComponent(title)}&prop=text|links|displaytitle&format=json&origin=*&redirects=1`;
-  const response = await fetch(url);
-  const data = await response.json();
-  
-  if (data.error) {
-    throw new Error(data.error.info);
-  }
+// Keep only links to existing articles (namespace 0) from an action=parse `links` array.
+export function extractArticleLinks(parseLinks: any[] | undefined): string[] {
+  return (parseLinks || [])
+    .filter((l: any) => l.ns === 0 && l.exists !== undefined)
+    .map((l: any) => l['*']);
+}
 
-  const parseData = data.parse;
-  let htmlContent = parseData.text['*'];
+// Visible category names from an action=parse `categories` array. Hidden maintenance
+// categories ("Articles with short description"...) say nothing about the topic.
+export function extractCategories(parseCategories: any[] | undefined): string[] | undefined {
+  if (!parseCategories) return undefined;
+  return parseCategories
+    .filter((c: any) => c.hidden === undefined)
+    .map((c: any) => String(c['*']).replace(/_/g, ' '));
+}
 
-  // BUG FIX: Rewrite relative image and link paths to absolute Wikipedia URLs
-  // This ensures images load and links look 'real'
-  htmlContent = htmlContent.replace(/src="\/\//g, 'src="https://');
-  htmlContent = htmlContent.replace(/href="\//g, 'href="https://en.wikipedia.org/');
-  // Ensure protocol-relative URLs for images are fixed
-  htmlContent = htmlContent.replace(/src="\/w\/extensions/g, 'src="https://en.wikipedia.org/w/extensions');
+// Max continuation requests when paging through a single link or backlink list
+const MAX_CONTINUATIONS = 10;
 
-  const links = (parseData.links || [])
-    .filter((l: any) => l.ns === 0 && l.exists !== undefined) 
-    .map((l: any) => l['*']);
+// Run an action=query request, following `continue` and collecting every page object.
+// `truncated` is set when the continuation limit cut the results short.
+async function queryAllPages(
+  api: string,
+  params: Record<string, string>
+): Promise<{ pages: any[]; requests: number; truncated: boolean }> {
+  const pages: any[] = [];
+  let cont: Record<string, string> = {};
+  for (let requests = 1; ; requests++) {
+    const query = new URLSearchParams({ action: 'query', format: 'json', formatversion: '2', origin: '*', ...params, ...cont });
+    const response = await fetch(`${api}?${query}`);
+    const data = await response.json();
+    if (data.error) throw new Error(data.error.info);
+    pages.push(...(data.query?.pages || []));
+    if (!data.continue) return { pages, requests, truncated: false };
+    if (requests >= MAX_CONTINUATIONS) return { pages, requests, truncated: true };
+    cont = data.continue;
+  }
+}
 
-  // Fetch summary for AI context
-  const summaryUrl = `https://en.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(parseData.title)}`;
-  const summaryRes = await fetch(summaryUrl);
-  const summaryData = await summaryRes.json();
+const unique = (titles: string[]) => Array.from(new Set(titles));
 
+// Live source for one Wikipedia edition. English keeps the plain "live" id so
+// existing recordings and batch results stay comparable.
+export function createLivePageSource(language = DEFAULT_LANGUAGE): PageSource {
+  const api = wikiApi(language);
   return {
-    title: parseData.title,
-    summary: summaryData.extract || 'No summary available.',
-    links: links,
-    extract: htmlContent
+    id: language === DEFAULT_LANGUAGE ? 'live' : `live-${language}`,
+    label: language === DEFAULT_LANGUAGE ? 'Live Wikipedia' : `Live Wikipedia (${language})`,
+    language,
+
+    async fetchRandomPageTitle(): Promise<string> {
+      const url = `${api}?action=query&list=random&rnnamespace=0&rnlimit=1&format=json&origin=*`;
+      const response = await fetch(url);
+      const data = await response.json();
+      return data.query.random[0].title;
+    },
+
+    async fetchPageData(title: string): Promise<WikiPage> {
+      // Use action=parse to get full HTML and links in one go
+      // We include redirects=1 to follow any redirects automatically
+      const url = `${api}?action=parse&page=${encodeURIComponent(title)}&prop=text|links|displaytitle|categories&format=json&origin=*&redirects=1`;
+      const response = await fetch(url);
+      const data = await response.json();
+
+      if (data.error) {
+        throw new Error(data.error.info);
+      }
+
+      const parseData = data.parse;
+      const htmlContent = absolutizeWikiHtml(parseData.text['*'], language);
+      const links = extractArticleLinks(parseData.links);
+
+      // Fetch summary for AI context
+      const summaryUrl = `${wikiOrigin(language)}/api/rest_v1/page/summary/${encodeURIComponent(parseData.title)}`;
+      const summaryRes = await fetch(summaryUrl);
+      const summaryData = await summaryRes.json();
+
+      return {
+        title: parseData.title,
+        summary: summaryData.extract || 'No summary available.',
+        links: links,
+        extract: htmlContent,
+        linkDetails: extractLinkDetails(parseData.text['*'], links),
+        categories: extractCategories(parseData.categories)
+      };
+    },
+
+    async searchPage(query: string): Promise<string[]> {
+      const url = `${api}?action=opensearch&search=${encodeURIComponent(query)}&limit=5&format=json&origin=*`;
+      const response = await fetch(url);
+      const data = await response.json();
+      return data[1];
+    },
+
+    async fetchLinks(title: string): Promise<LinkQueryResult> {
+      // generator=links with redirects=1 resolves every link to its target article
+      const { pages, requests, truncated } = await queryAllPages(api, {
+        generator: 'links',
+        titles: title,
+        gplnamespace: '0',
+        gpllimit: 'max',
+        redirects: '1'
+      });
+      return { titles: unique(pages.filter(p => !p.missing && p.ns === 0).map(p => p.title)), requests, truncated };
+    },
+
+    async fetchBacklinks(title: string): Promise<LinkQueryResult> {
+      // Direct links plus the redirects pointing at the page, which are followed one level
+      const direct = await queryAllPages(api, {
+        titles: title,
+        redirects: '1',
+        prop: 'linkshere|redirects',
+        lhnamespace: '0',
+        lhshow: '!redirect',
+        lhlimit: 'max',
+        rdnamespace: '0',
+        rdlimit: 'max'
+      });
+      const linkers = direct.pages.flatMap(p => (p.linkshere || []).map((l: any) => l.title));
+      const redirects: string[] = direct.pages.flatMap(p => (p.redirects || []).map((r: any) => r.title));
+      let { requests, truncated } = direct;
+
+      // titles= accepts at most 50 per request
+      for (let i = 0; i < redirects.length; i += 50) {
+        const viaRedirect = await queryAllPages(api, {
+          titles: redirects.slice(i, i + 50).join('|'),
+          prop: 'linkshere',
+          lhnamespace: '0',
+          lhshow: '!redirect',
+          lhlimit: 'max'
+        });
+        linkers.push(...viaRedirect.pages.flatMap(p => (p.linkshere || []).map((l: any) => l.title)));
+        requests += viaRedirect.requests;
+        truncated ||= viaRedirect.truncated;
+      }
+      return { titles: unique(linkers), requests, truncated };
+    }
   };
 }
 
-export async function searchPage(query: string): Promise<string[]> {
-  const url = `${WIKI_API}?action=opensearch&search=${encodeURIComponent(query)}&limit=5&format=json&origin=*`;
-  const response = await fetch(url);
-  const data = await response.json();
-  return data[1]; 
+export const livePageSource = createLivePageSource();
+
+// Title of the article on the `toLanguage` edition that `title` on the `fromLanguage`
+// edition links to through its interlanguage links, or null when there is none.
+// Always asks live Wikipedia: snapshots carry no interlanguage links.
+export async function fetchInterlanguageTitle(title: string, fromLanguage: string, toLanguage: string): Promise<string | null> {
+  if (fromLanguage === toLanguage) return title;
+  const { pages: [page] } = await queryAllPages(wikiApi(fromLanguage), {
+    titles: title,
+    redirects: '1',
+    prop: 'langlinks',
+    lllang: toLanguage
+  });
+  if (!page || page.missing) throw new Error(`The page "${title}" does not exist on ${fromLanguage}.wikipedia.org.`);
+  return page.langlinks?.[0]?.title ?? null;
+}
+
+// The module-level functions below delegate to the active source, so callers
+// never need to know whether they are talking to Wikipedia or a snapshot.
+let activeSource: PageSource = livePageSource;
+
+export function setPageSource(source: PageSource): void {
+  activeSource = source;
+}
+
+export function getPageSource(): PageSource {
+  return activeSource;
+}
+
+// The active edition's title for a target given on another edition. Throws when
+// there is no such article, since the run could never finish.
+export async function resolveTargetTitle(target: string, targetLanguage: string): Promise<string> {
+  const language = getLanguage();
+  const title = await fetchInterlanguageTitle(target, targetLanguage, language);
+  if (!title) throw new Error(`"${target}" (${targetLanguage}) has no article on ${language}.wikipedia.org.`);
+  return title;
+}
+
+// The article a title lands on after redirects, e.g. "Shakespeare" -> "William Shakespeare".
+export async function resolveRedirect(title: string): Promise<string> {
+  return (await activeSource.fetchPageData(title)).title;
+}
+
+// Edition the active source serves; snapshots without one are treated as English.
+export function getLanguage(): string {
+  return activeSource.language || DEFAULT_LANGUAGE;
+}
+
+export function fetchRandomPageTitle(): Promise<string> {
+  return activeSource.fetchRandomPageTitle();
+}
+
+export function fetchPageData(title: string): Promise<WikiPage> {
+  return activeSource.fetchPageData(title);
+}
+
+export function searchPage(query: string): Promise<string[]> {
+  return activeSource.searchPage(query);
+}
+
+export function fetchLinks(title: string): Promise<LinkQueryResult> {
+  return activeSource.fetchLinks(title);
+}
+
+export function fetchBacklinks(title: string): Promise<LinkQueryResult> {
+  return activeSource.fetchBacklinks(title);
+}
+
+// Speculatively load pages a solver may pick next. No-op for sources without a cache.
+export function prefetchPages(titles: string[]): void {
+  activeSource.prefetch?.(titles);
 }
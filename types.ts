@@ -1,11 +1,63 @@
-
-export type SolverType = 'GEMINI' | 'VECTORS' | 'OPENAI' | 'CLAUDE';
+// Ids of the solvers registered in services/solverRegistry.ts; a new solver adds its id here.
+export type SolverType = 'GEMINI' | 'OPENAI' | 'CLAUDE' | 'LOCAL' | 'VECTORS' | 'HYBRID' | 'HUMAN';
 
 export interface WikiPage {
   title: string;
   summary: string;
   links: string[];
   extract?: string;
+  linkDetails?: PageLink[]; // Where each link appears, in page order; absent when the page has no HTML
+  categories?: string[]; // Visible categories without the "Category:" prefix; absent when the source has none
+}
+
+// Part of the article a link appears in. 'navbox' also covers sidebars and hatnotes.
+// Solvers should prefer lead and body links.
+export type LinkRegion = 'lead' | 'body' | 'infobox' | 'navbox';
+
+export interface PageLink {
+  title: string; // As in WikiPage.links
+  text: string; // Anchor text
+  section: string | null; // Nearest h2-h4 heading above the link; null in the lead
+  index: number; // Order of first appearance
+  region: LinkRegion; // Of the link's most useful occurrence when it appears more than once
+  context: string; // Sentence around the link
+}
+
+// A link graph query's answer. Long lists come in pages, and `truncated` is set when
+// paging stopped before the end, so some titles are missing.
+export interface LinkQueryResult {
+  titles: string[];
+  requests: number; // HTTP requests it took; local sources count each lookup as one
+  truncated: boolean;
+}
+
+// Where page content comes from: live Wikipedia or a local snapshot.
+export interface PageSource {
+  id: string;
+  label: string;
+  language?: string; // Wikipedia edition code, e.g. "de"; omitted means English
+  fetchPageData: (title: string) => Promise<WikiPage>;
+  fetchRandomPageTitle: () => Promise<string>;
+  searchPage: (query: string) => Promise<string[]>;
+  // Lightweight link graph queries (no HTML or summary), used by the shortest-path oracle
+  fetchLinks: (title: string) => Promise<LinkQueryResult>; // Existing articles linked from the page, redirects resolved
+  fetchBacklinks: (title: string) => Promise<LinkQueryResult>; // Articles linking to the page, directly or via a redirect
+  prefetch?: (titles: string[]) => void; // Warm a cache in the background; sources without a cache omit it
+}
+
+export interface SnapshotPage {
+  title: string;
+  summary: string;
+  links: string[];
+  html?: string;
+  categories?: string[];
+}
+
+export interface WikiSnapshot {
+  version: 1;
+  createdAt?: string;
+  pages: SnapshotPage[];
+  redirects?: Record<string, string>; // Alias title -> canonical title
 }
 
 export interface GameStep {
@@ -14,6 +66,92 @@ export interface GameStep {
   timestamp: number;
   duration: number; // Execution time in ms
   solver: SolverType;
+  action?: MoveAction; // Defaults to 'LINK'
+  selectedLink?: string; // Link clicked on this page ('LINK' steps)
+  backTo?: string; // Destination page of a 'BACK' step
+  usage?: TokenUsage; // Tokens the solver call used; absent for solvers without an LLM
+  cost?: number; // USD for this step; absent when the model has no known price
+  invalidChoices?: string[]; // Picks rejected as not on the page before this move was accepted
+  correctedFrom?: string; // Solver's literal pick when it matched a link only loosely or via a redirect
+  candidates?: LinkCandidate[]; // The solver's ranking for this page, best first
+  fallbackFrom?: string; // Link the solver picked that failed to load; selectedLink is the runner-up used instead
+  prefilter?: LinkCandidate[]; // Links an embedding prefilter passed on to the LLM, with their similarity scores
+  progress?: StepProgress; // How close the page this step was taken from is to the target
+  violations?: RuleViolation[]; // Rules this move broke; the run ends on the first one
+}
+
+// Distance-to-target telemetry for one page. Each signal is absent when it could not be measured.
+export interface StepProgress {
+  similarity?: number; // Cosine similarity of the page and target titles' embeddings
+  categoryOverlap?: number; // Jaccard overlap of the page's and target's categories, 0-1
+}
+
+export interface LinkCandidate {
+  link: string;
+  score: number; // Confidence 0-1 for LLM solvers, cosine similarity for the vector solver
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Limits that end a run as FAILED once reached. Unset limits are not enforced.
+export interface RunBudget {
+  maxTokens?: number; // Input + output, across the whole run
+  maxCost?: number; // USD
+  maxWallTime?: number; // ms since the run started
+}
+
+// Rule variants on top of "reach the target within maxSteps". Every field is
+// optional; an empty object is the classic game.
+export interface GameRules {
+  forbiddenPages?: string[]; // Pages the run may not enter
+  forbiddenCategories?: string[]; // Pages with a category containing one of these phrases may not be entered, e.g. "Countries in"
+  waypoints?: string[]; // Pages to visit in this order before the target counts
+  bodyLinksOnly?: boolean; // Links in infoboxes, navboxes and sidebars are off limits
+  timeTrial?: boolean; // Score runs by wall-clock time instead of clicks
+}
+
+export type RuleViolationKind = 'FORBIDDEN_PAGE' | 'FORBIDDEN_CATEGORY' | 'NON_BODY_LINK';
+
+export interface RuleViolation {
+  kind: RuleViolationKind;
+  message: string;
+}
+
+export type MoveAction = 'LINK' | 'BACK';
+
+// How back moves are scored. OFF forbids them; the others allow them at a cost
+// in clicks (FREE: 0, COUNTED: 1, PENALTY: 2). Every move still counts toward maxSteps.
+export type BacktrackRule = 'OFF' | 'FREE' | 'COUNTED' | 'PENALTY';
+
+// Conversation memory for LLM solvers. OFF sends every move as a fresh prompt; the
+// others replay earlier exchanges: all of them (FULL), the most recent few (WINDOW),
+// or the most recent few plus a condensed summary of the rest (SUMMARY).
+export type MemoryStrategy = 'OFF' | 'FULL' | 'WINDOW' | 'SUMMARY';
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// One run's running chat with a solver. Created per run and passed with every move.
+export interface SolverConversation {
+  strategy: MemoryStrategy;
+  messages: (prompt: string) => ChatTurn[]; // Earlier exchanges under the strategy, ending with `prompt`
+  // Called by the game loop once per accepted step, so rejected picks never enter the chat
+  // and the recorded move is the one actually made (after corrections and fallbacks)
+  record: (step: GameStep) => void;
+}
+
+// User-editable body of the LLM move prompt, with {{placeholders}} for the page,
+// target, links and so on. Saving changes to a name adds a new version, so runs
+// recorded with "name v1" keep meaning the same prompt.
+export interface PromptTemplate {
+  name: string;
+  version: number;
+  body: string;
 }
 
 export enum GameStatus {
@@ -23,10 +161,66 @@ export enum GameStatus {
   PAUSED = 'PAUSED',
   SUCCESS = 'SUCCESS',
   FAILED = 'FAILED',
-  LOADING_STEP = 'LOADING_STEP'
+  LOADING_STEP = 'LOADING_STEP',
+  REPLAY = 'REPLAY'
 }
 
 export interface AIResponse {
   reasoning: string;
   selectedLink: string;
+  action?: MoveAction; // 'BACK' only when the solver was offered a back stack
+  backTo?: string; // Page on the back stack to return to; defaults to the previous page
+  usage?: TokenUsage; // Reported by LLM solvers
+  candidates?: LinkCandidate[]; // Top links ranked best first; the first is the move
+  prefilter?: LinkCandidate[]; // Hybrid solver: the embedding-ranked links the LLM chose from
+}
+
+export interface SolverModelOption {
+  value: string;
+  label: string;
+}
+
+export interface SolverCapabilities {
+  needsApiKey: boolean;
+  supportsStreaming: boolean;
+  needsModelLoad: boolean; // Solver must download/initialise a local model before its first move
+  interactive: boolean; // Moves come from the player clicking links; cannot run headless
+  customEndpoint: boolean; // Talks to a user-supplied OpenAI-compatible server: base URL plus free-text model name
+  conversational: boolean; // Can keep a running chat across moves (memory strategies other than OFF)
+  promptTemplate: boolean; // Builds its prompt from the editable prompt template
+}
+
+export interface SolverMoveRequest {
+  currentPage: WikiPage;
+  targetPage: string;
+  history: string[];
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string; // Server for solvers with a custom endpoint
+  backStack?: string[]; // Pages the solver may go back to (oldest first); omitted when backtracking is off
+  invalidChoices?: string[]; // Earlier picks for this page that were not valid links, for a corrective re-prompt
+  rules?: GameRules; // Rule variant in force; waypoints lists only those not yet visited
+  language?: string; // Wikipedia edition the pages come from; omitted means English
+  conversation?: SolverConversation; // Omitted for stateless moves
+  promptTemplate?: string; // Template body to build the prompt from; omitted means the default
+}
+
+export interface ModelLoadProgress {
+  status: 'loading' | 'ready' | 'error';
+  progress: number; // 0-100 over every model file
+  file?: string; // File being downloaded
+  error?: string;
+}
+
+export interface Solver {
+  id: SolverType;
+  label: string;
+  icon: string; // Font Awesome class, e.g. 'fa-brain'
+  color: string; // Tailwind palette name, e.g. 'blue'
+  thinkingLabel: string; // Shown while a move is being computed
+  models: SolverModelOption[]; // Empty when the solver has no model choice
+  defaultModel?: string;
+  capabilities: SolverCapabilities;
+  loadModel?: (onProgress?: (progress: ModelLoadProgress) => void) => Promise<unknown>;
+  getNextMove: (request: SolverMoveRequest) => Promise<AIResponse>;
 }